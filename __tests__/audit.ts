@@ -0,0 +1,105 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { createStorage } from 'storage-facade';
+import { MockInterface as TestedInterface, FidelityAudit } from '../src/index';
+import { mockStorageMatchers } from '../src/matchers';
+
+expect.extend(mockStorageMatchers);
+
+it('Audit: sync writes', () => {
+  const mock = new TestedInterface({ audit: true });
+  const storage = createStorage({ use: mock, asyncMode: false });
+  storage.clean = { list: [1, 'a', null] };
+  storage.user = { at: new Date(0), tags: new Map([['a', 1]]), zero: -0 };
+  // Stored unchanged by the 'mock' profile
+  expect(Object.is((storage.user as { zero: number }).zero, -0)).toBe(true);
+
+  const audit = mock.audit as FidelityAudit;
+  expect(audit.keys()).toEqual(['user']);
+  expect(audit.warnings('clean')).toEqual([]);
+  expect(
+    audit.warnings('user').map(({ target, path, problem }) => [target, path, problem])
+  ).toEqual([
+    ['json', 'user.at', 'a Date becomes a string'],
+    ['json', 'user.tags', 'a Map becomes {}'],
+    ['json', 'user.zero', '-0 becomes 0'],
+  ]);
+  expect(audit.warnings()[0]).toMatchObject({
+    key: 'user',
+    method: 'setItemSync',
+    storageName: 'storage',
+  });
+
+  // The same warnings are not repeated
+  storage.user = { at: new Date(1), tags: new Map(), zero: -0 };
+  expect(audit.warnings()).toHaveLength(3);
+
+  audit.clear();
+  expect(audit.warnings()).toEqual([]);
+});
+
+it('Audit: async writes and structured clone', async () => {
+  class Point {
+    x = 1;
+  }
+  const mock = new TestedInterface({ audit: true });
+  mock.delay = [0, 0];
+  const storage = createStorage({ use: mock });
+  storage.point = new Point();
+  await storage.point;
+
+  expect(mock.audit?.warnings()).toEqual([
+    {
+      key: 'point',
+      method: 'setItemAsync',
+      storageName: 'storage',
+      target: 'json',
+      path: 'point',
+      problem: 'an instance of Point becomes a plain object',
+    },
+    {
+      key: 'point',
+      method: 'setItemAsync',
+      storageName: 'storage',
+      target: 'structuredClone',
+      path: 'point',
+      problem: 'an instance of Point loses its prototype',
+    },
+  ]);
+  expect(mock.audit?.report()).toEqual(
+    [
+      "'point':",
+      '  point: an instance of Point becomes a plain object (json)',
+      '  point: an instance of Point loses its prototype (structuredClone)',
+    ].join('\n')
+  );
+});
+
+it('Audit: shared between instances and the matcher', () => {
+  const audit = new FidelityAudit();
+  const first = createStorage({
+    use: new TestedInterface({ audit }),
+    name: 'first',
+    asyncMode: false,
+  });
+  const second = createStorage({
+    use: new TestedInterface({ audit, profile: 'localStorage' }),
+    name: 'second',
+  });
+
+  first.value = [1, 2];
+  expect(first).toHaveNoLossyValues();
+  second.value = [1, undefined];
+  expect(first).not.toHaveNoLossyValues();
+  expect(audit.warnings().map((w) => w.storageName)).toEqual(['second']);
+
+  const unaudited = createStorage({ use: new TestedInterface(), asyncMode: false });
+  expect(() => {
+    expect(unaudited).toHaveNoLossyValues();
+  }).toThrow(`'toHaveNoLossyValues': the storage was created without 'audit'`);
+});
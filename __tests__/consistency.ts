@@ -0,0 +1,130 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { createStorage } from 'storage-facade';
+import {
+  MockInterface as TestedInterface,
+  BackendRegistry,
+  VirtualClock,
+  type Consistency,
+} from '../src/index';
+
+// A read issued after a slower write
+const readAfterWrite = async (consistency: Consistency): Promise<unknown> => {
+  const clock = new VirtualClock();
+  const mock = new TestedInterface({ scheduler: clock, consistency });
+  mock.initSync({ use: mock });
+  mock.delay = { setItemAsync: [30, 30], getItemAsync: [40, 40] };
+
+  const write = mock.setItemAsync('value', 1);
+  mock.delay = { setItemAsync: [30, 30], getItemAsync: [5, 5] };
+  const read = mock.getItemAsync('value');
+  await clock.runAll();
+  await write;
+  return read;
+};
+
+it('Consistency: capture-at-call (default)', async () => {
+  expect(new TestedInterface().consistency).toEqual('capture-at-call');
+  expect(await readAfterWrite('capture-at-call')).toEqual(undefined);
+});
+
+it('Consistency: read-at-resolve', async () => {
+  const clock = new VirtualClock();
+  const mock = new TestedInterface({ scheduler: clock, consistency: 'read-at-resolve' });
+  mock.initSync({ use: mock });
+  mock.delay = { setItemAsync: [10, 10], getItemAsync: [20, 20] };
+
+  const write = mock.setItemAsync('value', 1);
+  const read = mock.getItemAsync('value');
+  await clock.runAll();
+  await write;
+  expect(await read).toEqual(1);
+
+  // The read resolves before the write
+  expect(await readAfterWrite('read-at-resolve')).toEqual(undefined);
+});
+
+it('Consistency: strong', async () => {
+  expect(await readAfterWrite('strong')).toEqual(1);
+
+  const clock = new VirtualClock();
+  const mock = new TestedInterface({ scheduler: clock, consistency: 'strong' });
+  mock.initSync({ use: mock });
+  mock.addFault({ method: 'setItemAsync', nth: 2 });
+
+  const first = mock.setItemAsync('value', 1);
+  const second = mock.setItemAsync('value', 2).catch((e: Error) => e.message);
+  const read = mock.getItemAsync('value');
+  expect(mock.storage.get('value')).toEqual(1);
+  await clock.runAll();
+  await first;
+  expect(await second).toMatch('injected fault');
+  expect(await read).toEqual(1);
+});
+
+it('Consistency: eventual', async () => {
+  const clock = new VirtualClock();
+  const registry = new BackendRegistry();
+  const options = {
+    scheduler: clock,
+    shared: registry,
+    consistency: 'eventual' as const,
+    replicationLag: [50, 50] as [number, number],
+  };
+  const tab1 = createStorage({ use: new TestedInterface(options), asyncMode: false });
+  const tab2 = createStorage({ use: new TestedInterface(options), asyncMode: false });
+
+  tab1.value = 1;
+  // The writer sees its own write
+  expect(tab1.value).toEqual(1);
+  expect(tab2.value).toEqual(undefined);
+  expect(registry.get('storage')?.storage.has('value')).toEqual(false);
+
+  await clock.advanceBy(49);
+  expect(tab2.value).toEqual(undefined);
+  await clock.advanceBy(1);
+  expect(tab2.value).toEqual(1);
+  expect(registry.get('storage')?.storage.get('value')).toEqual(1);
+
+  // Conflicting writes: the last one to arrive wins everywhere
+  tab1.value = 'tab1';
+  await clock.advanceBy(10);
+  tab2.value = 'tab2';
+  expect(tab1.value).toEqual('tab1');
+  expect(tab2.value).toEqual('tab2');
+  await clock.runAll();
+  expect(tab1.value).toEqual('tab2');
+  expect(tab2.value).toEqual('tab2');
+});
+
+it('Consistency: eventual, async', async () => {
+  const clock = new VirtualClock();
+  const registry = new BackendRegistry();
+  const options = {
+    scheduler: clock,
+    shared: registry,
+    consistency: 'eventual' as const,
+    replicationLag: [100, 100] as [number, number],
+  };
+  const tab1 = createStorage({ use: new TestedInterface(options), delay: [10, 10] });
+  const tab2 = createStorage({ use: new TestedInterface(options), delay: [10, 10] });
+
+  tab1.value = 1;
+  const written = tab1.value;
+  await clock.advanceBy(20); // init + write
+  await written;
+
+  let read = tab2.value;
+  await clock.advanceBy(10);
+  expect(await read).toEqual(undefined);
+
+  await clock.advanceBy(100);
+  read = tab2.value;
+  await clock.advanceBy(10);
+  expect(await read).toEqual(1);
+});
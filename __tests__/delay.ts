@@ -0,0 +1,85 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { createStorage } from 'storage-facade';
+import { MockInterface as TestedInterface, defaultDelay } from '../src/index';
+
+const timeouts = (spy: jest.SpyInstance): unknown[] => spy.mock.calls.map((c) => c[1]);
+
+it('Delay: default', () => {
+  const mock = new TestedInterface();
+  expect(mock.getDelay()).toEqual(defaultDelay);
+  expect(mock.getDelay('setItemAsync')).toEqual(defaultDelay);
+});
+
+it('Delay: `[from, to]` from setup', async () => {
+  const spy = jest.spyOn(globalThis, 'setTimeout');
+  const storage = createStorage({
+    use: new TestedInterface(),
+    delay: [3, 3],
+  });
+
+  storage.value = 1;
+  await storage.value;
+  expect(await storage.value).toEqual(1);
+
+  expect(timeouts(spy)).toEqual([3, 3, 3]);
+  spy.mockRestore();
+});
+
+it('Delay: per-method profile', async () => {
+  const spy = jest.spyOn(globalThis, 'setTimeout');
+  const storage = createStorage({
+    use: new TestedInterface(),
+    delay: {
+      default: [0, 0],
+      getItemAsync: [1, 1],
+      setItemAsync: [5, 5],
+      clearAsync: [6, 6],
+      deleteStorageAsync: [9, 9],
+    },
+  });
+
+  storage.value = 1;
+  await storage.value;
+  expect(await storage.value).toEqual(1);
+  await storage.size();
+  await storage.clear();
+  await storage.deleteStorage();
+
+  // initAsync, setItemAsync, getItemAsync, sizeAsync, clearAsync, deleteStorageAsync
+  expect(timeouts(spy)).toEqual([0, 5, 1, 0, 6, 9]);
+  spy.mockRestore();
+});
+
+it('Delay: invalid value', async () => {
+  expect(() =>
+    createStorage({
+      use: new TestedInterface(),
+      asyncMode: false,
+      delay: [10],
+    }).value
+  ).toThrow(`'delay' must be`);
+
+  const storage = createStorage({
+    use: new TestedInterface(),
+    delay: { getItemAsync: 'fast' },
+  });
+
+  expect.assertions(3);
+  try {
+    await storage.value;
+  } catch (e) {
+    expect((e as Error).message).toMatch(`'delay' must be`);
+  }
+
+  const typo = createStorage({
+    use: new TestedInterface(),
+    delay: { getItemAsnyc: [0, 5] },
+  });
+  await expect(typo.value).rejects.toThrow(`'delay' must be`);
+});
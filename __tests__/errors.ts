@@ -0,0 +1,96 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { createStorage } from 'storage-facade';
+import {
+  MockInterface as TestedInterface,
+  InvalidStateError,
+  DataCloneError,
+  QuotaExceededError,
+  NotInitializedError,
+} from '../src/index';
+
+const caught = (fn: () => unknown): unknown => {
+  try {
+    fn();
+  } catch (e) {
+    return e;
+  }
+  throw Error('Nothing was thrown');
+};
+
+it('Errors: names and codes', () => {
+  const errors = [
+    new InvalidStateError('a'),
+    new DataCloneError('b'),
+    new QuotaExceededError('c'),
+    new NotInitializedError('d'),
+  ];
+  expect(errors.map(({ name, code }) => [name, code])).toEqual([
+    ['InvalidStateError', 11],
+    ['DataCloneError', 25],
+    ['QuotaExceededError', 22],
+    ['NotInitializedError', 0],
+  ]);
+  errors.forEach((error) => {
+    expect(error).toBeInstanceOf(DOMException);
+    expect(error).toBeInstanceOf(Error);
+  });
+});
+
+it('Errors: sync', () => {
+  const mock = new TestedInterface({ quota: { maxKeys: 1 } });
+  expect(caught(() => mock.getItemSync('value'))).toBeInstanceOf(NotInitializedError);
+
+  const storage = createStorage({ use: mock, asyncMode: false });
+  storage.value = 1;
+  expect(
+    caught(() => {
+      storage.other = 1;
+    })
+  ).toBeInstanceOf(QuotaExceededError);
+  const clone = caught(() => {
+    storage.value = () => {};
+  });
+  expect(clone).toBeInstanceOf(DataCloneError);
+  expect((clone as Error).message).toMatch(`The value can't be stored in 'mock'`);
+
+  storage.deleteStorage();
+  const deleted = caught(() => storage.value);
+  expect(deleted).toBeInstanceOf(InvalidStateError);
+  expect((deleted as Error).message).toEqual('This Storage was deleted!');
+  mock.close();
+  expect(caught(() => mock.getItemSync('value'))).toBeInstanceOf(InvalidStateError);
+});
+
+it('Errors: async', async () => {
+  const mock = new TestedInterface({ quota: { maxKeys: 1 } });
+  mock.delay = [0, 0];
+  await expect(mock.getItemAsync('value')).rejects.toBeInstanceOf(NotInitializedError);
+
+  await mock.initAsync({ use: mock });
+  await mock.setItemAsync('value', 1);
+  await expect(mock.setItemAsync('other', 1)).rejects.toBeInstanceOf(QuotaExceededError);
+  await expect(mock.setItemAsync('value', Symbol('s'))).rejects.toBeInstanceOf(
+    DataCloneError
+  );
+
+  await mock.deleteStorageAsync();
+  await expect(mock.getItemAsync('value')).rejects.toBeInstanceOf(InvalidStateError);
+  expect(caught(() => mock.checkStorage())).toBeInstanceOf(InvalidStateError);
+});
+
+it('Errors: JSON profiles throw like JSON.stringify', () => {
+  const storage = createStorage({
+    use: new TestedInterface({ profile: 'localStorage' }),
+  });
+  expect(
+    caught(() => {
+      storage.value = BigInt(1);
+    })
+  ).toBeInstanceOf(TypeError);
+});
@@ -0,0 +1,222 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { type StorageFacade, createStorage } from 'storage-facade';
+import {
+  MockInterface as TestedInterface,
+  BackendRegistry,
+  VirtualClock,
+  type StorageChange,
+  type MockOptions,
+} from '../src/index';
+
+const open = (
+  options: MockOptions
+): { mock: TestedInterface; storage: StorageFacade } => {
+  const mock = new TestedInterface(options);
+  const storage = createStorage({ use: mock, name: 'settings', asyncMode: false });
+  return { mock, storage };
+};
+
+it('Events: other instances are notified, the writer is not', () => {
+  const shared = new BackendRegistry();
+  const writer = open({ shared });
+  const reader = open({ shared });
+  const other = open({ shared: new BackendRegistry() });
+  const own: StorageChange[] = [];
+  const received: StorageChange[] = [];
+  writer.mock.onChange((change) => own.push(change));
+  reader.mock.onChange((change) => received.push(change));
+  other.mock.onChange((change) => received.push(change));
+
+  writer.storage.a = 1;
+  writer.storage.a = { b: 2 };
+  delete writer.storage.a;
+  // Nothing changes
+  delete writer.storage.a;
+  writer.storage.c = 3;
+  writer.storage.clear();
+  writer.storage.clear();
+  writer.storage.deleteStorage();
+
+  expect(own).toEqual([]);
+  expect(received).toEqual([
+    { type: 'set', key: 'a', oldValue: null, newValue: 1, storageName: 'settings' },
+    { type: 'set', key: 'a', oldValue: 1, newValue: { b: 2 }, storageName: 'settings' },
+    {
+      type: 'remove',
+      key: 'a',
+      oldValue: { b: 2 },
+      newValue: null,
+      storageName: 'settings',
+    },
+    { type: 'set', key: 'c', oldValue: null, newValue: 3, storageName: 'settings' },
+    { type: 'clear', key: null, oldValue: null, newValue: null, storageName: 'settings' },
+    {
+      type: 'deleteStorage',
+      key: null,
+      oldValue: null,
+      newValue: null,
+      storageName: 'settings',
+    },
+  ]);
+});
+
+it('Events: values are copies', () => {
+  const shared = new BackendRegistry();
+  const writer = open({ shared });
+  const reader = open({ shared });
+  reader.mock.onChange((change) => {
+    (change.newValue as { b: number }).b = 100;
+  });
+
+  writer.storage.a = { b: 1 };
+  expect(reader.storage.a).toEqual({ b: 1 });
+});
+
+it('Events: values are cloned only for listeners', () => {
+  const shared = new BackendRegistry();
+  const writer = open({ shared, journal: false });
+  open({ shared });
+  const clone = jest.spyOn(globalThis, 'structuredClone');
+  try {
+    writer.storage.a = { b: 1 };
+    // The stored value only, not the change
+    expect(clone).toHaveBeenCalledTimes(1);
+  } finally {
+    clone.mockRestore();
+  }
+});
+
+it('Events: remove the listener', () => {
+  const shared = new BackendRegistry();
+  const writer = open({ shared });
+  const reader = open({ shared });
+  const listener = jest.fn();
+  const remove = reader.mock.onChange(listener);
+
+  writer.storage.a = 1;
+  remove();
+  writer.storage.a = 2;
+  expect(listener).toHaveBeenCalledTimes(1);
+});
+
+it('Events: async operations notify when applied', async () => {
+  const shared = new BackendRegistry();
+  const clock = new VirtualClock();
+  const writer = new TestedInterface({ shared, scheduler: clock });
+  const reader = new TestedInterface({ shared, scheduler: clock });
+  writer.initSync({ use: writer, name: 'settings' });
+  reader.initSync({ use: reader, name: 'settings' });
+  const listener = jest.fn();
+  reader.onChange(listener);
+
+  const write = writer.setItemAsync('a', 1);
+  expect(listener).not.toHaveBeenCalled();
+  await clock.runAll();
+  await write;
+  expect(listener).toHaveBeenCalledTimes(1);
+});
+
+it("Events: with 'eventual' when the change reaches the backend", async () => {
+  const shared = new BackendRegistry();
+  const clock = new VirtualClock();
+  const options: MockOptions = {
+    shared,
+    scheduler: clock,
+    consistency: 'eventual',
+    replicationLag: [50, 50],
+  };
+  const writer = open(options);
+  const reader = open(options);
+  const listener = jest.fn();
+  reader.mock.onChange(listener);
+
+  writer.storage.a = 1;
+  await clock.advanceBy(49);
+  expect(listener).not.toHaveBeenCalled();
+  await clock.advanceBy(1);
+  expect(listener).toHaveBeenCalledWith(
+    expect.objectContaining({ key: 'a', oldValue: null, newValue: 1 })
+  );
+});
+
+it('Events: StorageEvent on window', () => {
+  const shared = new BackendRegistry();
+  const writer = open({ shared, storageEvents: true });
+  const quiet = open({ shared });
+  const reader = open({ shared, storageEvents: true });
+  const events: Array<Pick<StorageEvent, 'key' | 'oldValue' | 'newValue'>> = [];
+  const listener = (e: StorageEvent): void => {
+    events.push({ key: e.key, oldValue: e.oldValue, newValue: e.newValue });
+  };
+  window.addEventListener('storage', listener);
+
+  writer.storage.a = 'text';
+  writer.storage.a = { b: 1 };
+  quiet.storage.clear();
+  window.removeEventListener('storage', listener);
+
+  expect(reader.storage.a).toEqual(undefined);
+  expect(events).toEqual([
+    // From `reader`
+    { key: 'a', oldValue: null, newValue: 'text' },
+    { key: 'a', oldValue: 'text', newValue: '{"b":1}' },
+    // From `writer` and `reader`
+    { key: null, oldValue: null, newValue: null },
+    { key: null, oldValue: null, newValue: null },
+  ]);
+});
+
+it('Events: a listener that throws affects neither the writer nor other listeners', async () => {
+  const shared = new BackendRegistry();
+  const clock = new VirtualClock();
+  const errors: unknown[] = [];
+  const options: MockOptions = {
+    shared,
+    scheduler: clock,
+    onListenerError: (error) => errors.push(error),
+  };
+  const a = new TestedInterface(options);
+  const b = new TestedInterface(options);
+  const c = new TestedInterface({ ...options, consistency: 'eventual' });
+  [a, b, c].forEach((mock) => mock.initSync({ use: mock, name: 'settings' }));
+  const received: Array<string | null> = [];
+  b.onChange(() => {
+    throw Error('listener');
+  });
+  b.onChange(({ key }) => received.push(key));
+  c.onChange(({ key }) => received.push(key));
+
+  a.setItemSync('x', 1);
+  const write = a.setItemAsync('y', 2);
+  await clock.runAll();
+  await write;
+  // Reaches the backend in a scheduler timer
+  c.setItemSync('z', 3);
+  await clock.runAll();
+
+  expect(a.getItemSync('z')).toEqual(3);
+  expect(received).toEqual(['x', 'x', 'y', 'y', 'z']);
+  expect(errors).toEqual([Error('listener'), Error('listener'), Error('listener')]);
+});
+
+it('Events: listener errors are logged by default', () => {
+  const shared = new BackendRegistry();
+  const writer = open({ shared });
+  const reader = open({ shared });
+  reader.mock.onChange(() => {
+    throw Error('listener');
+  });
+  const log = jest.spyOn(console, 'error').mockImplementation(() => {});
+  try {
+    writer.storage.a = 1;
+    expect(log).toHaveBeenCalledWith(Error('listener'));
+  } finally {
+    log.mockRestore();
+  }
+});
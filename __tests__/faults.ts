@@ -0,0 +1,128 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { createStorage } from 'storage-facade';
+import { MockInterface as TestedInterface, getMockStorage } from '../src/index';
+
+it('Faults: sync method throws', () => {
+  const mock = new TestedInterface();
+  const storage = createStorage({ use: mock, asyncMode: false });
+
+  const remove = mock.addFault({ method: 'setItem', error: Error('Disk is full') });
+
+  expect(() => {
+    storage.value = 1;
+  }).toThrow('Disk is full');
+  expect(getMockStorage(storage).has('value')).toEqual(false);
+
+  // Other methods still work
+  expect(storage.value).toEqual(undefined);
+
+  remove();
+  storage.value = 1;
+  expect(storage.value).toEqual(1);
+});
+
+it('Faults: async method rejects without applying the change', async () => {
+  const mock = new TestedInterface();
+  const storage = createStorage({ use: mock, delay: [0, 0] });
+
+  mock.addFault({ method: 'setItemAsync' });
+
+  storage.value = 1;
+  await expect(storage.value).rejects.toThrow(
+    `MockInterface: injected fault in 'setItemAsync' (key: 'value')`
+  );
+  expect(getMockStorage(storage).has('value')).toEqual(false);
+
+  mock.addFault({ method: ['clearAsync', 'sizeAsync'], error: 'offline' });
+  await expect(storage.clear()).rejects.toEqual('offline');
+  await expect(storage.size()).rejects.toEqual('offline');
+});
+
+it('Faults: key pattern', () => {
+  const mock = new TestedInterface();
+  const storage = createStorage({ use: mock, asyncMode: false });
+
+  mock.addFault({ key: /^cache\./ });
+
+  storage.value = 1;
+  expect(() => {
+    storage['cache.user'] = 1;
+  }).toThrow(`injected fault in 'setItemSync'`);
+  expect(() => storage['cache.user']).toThrow(`injected fault in 'getItemSync'`);
+  // Methods without a key are not affected
+  expect(storage.size()).toEqual(1);
+});
+
+it('Faults: key pattern with the global flag', () => {
+  const mock = new TestedInterface();
+  const storage = createStorage({ use: mock, asyncMode: false });
+
+  mock.addFault({ key: /^a/g });
+
+  for (let i = 0; i < 4; i += 1) {
+    expect(() => storage.a).toThrow(`injected fault in 'getItemSync'`);
+  }
+});
+
+it('Faults: Nth call and next K calls', () => {
+  const mock = new TestedInterface();
+  const storage = createStorage({ use: mock, asyncMode: false });
+
+  mock.addFault({ method: 'getItemSync', nth: 3 });
+
+  expect(storage.value).toEqual(undefined);
+  expect(storage.value).toEqual(undefined);
+  expect(() => storage.value).toThrow();
+  expect(storage.value).toEqual(undefined);
+
+  mock.addFault({ method: 'setItemSync', times: 2 });
+
+  expect(() => {
+    storage.value = 1;
+  }).toThrow();
+  expect(() => {
+    storage.value = 1;
+  }).toThrow();
+  storage.value = 1;
+  expect(storage.value).toEqual(1);
+  expect(mock.faults.size()).toEqual(0);
+});
+
+it('Faults: probability is reproducible with a seed', () => {
+  const failures = (seed: number): boolean[] => {
+    const mock = new TestedInterface({ seed });
+    mock.initSync({ use: mock });
+    mock.addFault({ method: 'getItemSync', probability: 0.5 });
+    return Array.from({ length: 20 }, () => {
+      try {
+        mock.getItemSync('value');
+        return false;
+      } catch {
+        return true;
+      }
+    });
+  };
+
+  expect(failures(1)).toEqual(failures(1));
+  expect(failures(1)).toContain(true);
+  expect(failures(1)).toContain(false);
+});
+
+it('Faults: init', async () => {
+  const mock = new TestedInterface();
+  mock.addFault({ method: 'init', error: Error('Blocked') });
+  const storage = createStorage({ use: mock, asyncMode: false });
+  expect(() => storage.value).toThrow('Blocked');
+
+  const mock2 = new TestedInterface();
+  mock2.addFault({ method: 'initAsync' });
+  const storage2 = createStorage({ use: mock2, delay: [0, 0] });
+  await expect(storage2.value).rejects.toThrow(`injected fault in 'initAsync'`);
+  mock2.clearFaults();
+});
@@ -0,0 +1,232 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { createStorage } from 'storage-facade';
+import {
+  MockInterface as TestedInterface,
+  type SessionFixture,
+  type EncodedValue,
+  type MethodName,
+  encodeValue,
+  decodeValue,
+  compareFixtures,
+  VirtualClock,
+} from '../src/index';
+import { writeFixture, readFixture } from '../src/node';
+import { mockStorageMatchers } from '../src/matchers';
+
+expect.extend(mockStorageMatchers);
+
+// What QA does in the app
+const session = (mock: TestedInterface): void => {
+  const storage = createStorage({ use: mock, name: 'app', asyncMode: false });
+  storage.user = { name: 'Alice', visits: 1 };
+  storage.tags = new Set(['a']);
+  expect(storage.user).toEqual({ name: 'Alice', visits: 1 });
+  delete storage.tags;
+  expect(storage.size()).toEqual(1);
+};
+
+// Through a file, like a fixture attached to a bug report
+const throughJson = (fixture: SessionFixture): SessionFixture =>
+  JSON.parse(JSON.stringify(fixture)) as SessionFixture;
+
+it('Fixture: values survive JSON', () => {
+  const value = {
+    at: new Date(0),
+    map: new Map<unknown, unknown>([[1, { list: [undefined, NaN, -0] }]]),
+    set: new Set([BigInt(10)]),
+    re: /a+/gi,
+    bytes: new Uint8Array([1, 2]),
+    $type: 'user data',
+  };
+  const encoded = encodeValue(value);
+  const decoded = decodeValue(
+    JSON.parse(JSON.stringify(encoded)) as EncodedValue
+  ) as typeof value;
+  expect(decoded).toEqual(value);
+  expect(Object.is((decoded.map.get(1) as { list: number[] }).list[2], -0)).toBe(true);
+});
+
+it('Fixture: circular values', () => {
+  interface Node {
+    name: string;
+    self?: Node;
+    children: Node[];
+    index: Map<string, Node>;
+    $type?: string;
+  }
+  const root: Node = { name: 'root', children: [], index: new Map() };
+  const child: Node = { name: 'child', children: [], index: new Map(), $type: 'leaf' };
+  root.self = root;
+  root.children.push(child, child);
+  child.index.set('root', root);
+  child.index.set('child', child);
+
+  const encoded = JSON.parse(JSON.stringify(encodeValue(root))) as EncodedValue;
+  expect(encoded).toMatchObject({ self: { $type: 'ref', value: [] } });
+  const decoded = decodeValue(encoded) as Node;
+  // `toEqual` doesn't stop at cycles through a Map
+  expect(encodeValue(decoded)).toEqual(encoded);
+  expect(decoded.self).toBe(decoded);
+  const [first, second] = decoded.children;
+  expect(first.index.get('root')).toBe(decoded);
+  expect(first.index.get('child')).toBe(first);
+  // Not circular: a copy
+  expect(second).not.toBe(first);
+
+  const mock = new TestedInterface();
+  mock.initSync({ use: mock });
+  mock.setItemSync('root', root);
+  const fixture = throughJson(mock.recordFixture());
+  expect(mock).toMatchFixture(fixture);
+  expect(fixture.steps[1].args[1]).toEqual(encoded);
+  expect(() => decodeValue({ $type: 'ref', value: ['missing'] })).toThrow(
+    `decodeValue: unknown reference ["missing"]!`
+  );
+});
+
+it('Fixture: record and replay', async () => {
+  const recorded = new TestedInterface({ seed: 1 });
+  session(recorded);
+  const fixture = throughJson(recorded.recordFixture());
+  expect(fixture).toMatchObject({ version: 1, profile: 'mock', seed: 1 });
+  expect(fixture.steps.map(({ method, status }) => [method, status])).toEqual([
+    ['initSync', 'ok'],
+    ['setItemSync', 'ok'],
+    ['setItemSync', 'ok'],
+    ['getItemSync', 'ok'],
+    ['removeItemSync', 'ok'],
+    ['sizeSync', 'ok'],
+  ]);
+  expect(decodeValue(fixture.steps[3].result ?? null)).toEqual({
+    name: 'Alice',
+    visits: 1,
+  });
+
+  const fresh = new TestedInterface();
+  expect(await fresh.replay(fixture)).toEqual([]);
+  expect(fresh.view().entries()).toEqual([['user', { name: 'Alice', visits: 1 }]]);
+
+  // The same calls fail with a quota
+  const limited = new TestedInterface({ quota: { maxKeys: 1 } });
+  expect(await limited.replay(fixture)).toMatchObject([
+    { index: 2, field: 'status', expected: 'ok', actual: 'error' },
+    { index: 2, field: 'error', actual: { name: 'QuotaExceededError' } },
+  ]);
+});
+
+it('Fixture: async sessions', async () => {
+  const recorded = new TestedInterface();
+  recorded.delay = [0, 0];
+  const storage = createStorage({ use: recorded });
+  storage.value = 1;
+  await storage.value;
+  expect(await storage.missing).toEqual(undefined);
+  await storage.clear();
+  const fixture = throughJson(recorded.recordFixture());
+  expect(fixture.steps.map(({ method }) => method)).toEqual([
+    'initAsync',
+    'setItemAsync',
+    'getItemAsync',
+    'clearAsync',
+  ]);
+
+  const fresh = new TestedInterface();
+  fresh.delay = [0, 0];
+  expect(await fresh.replay(fixture)).toEqual([]);
+
+  // Real timers: timing is compared only on request
+  const later = {
+    ...fixture,
+    steps: fixture.steps.map((step) => ({ ...step, startedAt: step.startedAt + 100 })),
+  };
+  expect(compareFixtures(fixture, later)).toEqual([]);
+  expect(compareFixtures(fixture, later, { timing: true })).toMatchObject([
+    { index: 0, field: 'startedAt', expected: 0, actual: 100 },
+    { index: 1, field: 'startedAt' },
+    { index: 2, field: 'startedAt' },
+    { index: 3, field: 'startedAt' },
+  ]);
+});
+
+it('Fixture: concurrent sessions', async () => {
+  const clock = new VirtualClock();
+  const recorded = new TestedInterface({ scheduler: clock });
+  recorded.initSync({ use: recorded });
+  // The later write settles first, the read sees it
+  recorded.delay = [50, 50];
+  const first = recorded.setItemAsync('a', 1);
+  recorded.delay = [10, 10];
+  const second = recorded.setItemAsync('a', 2);
+  await clock.advanceBy(20);
+  recorded.delay = [5, 5];
+  const read = recorded.getItemAsync('a');
+  await clock.runAll();
+  await Promise.all([first, second, read]);
+  expect(recorded.getItemSync('a')).toEqual(1);
+  const fixture = throughJson(recorded.recordFixture());
+  expect(fixture.steps.map(({ startedAt, duration }) => [startedAt, duration])).toEqual([
+    [0, 0],
+    [0, 50],
+    [0, 10],
+    [20, 5],
+    [50, 0],
+  ]);
+
+  const replayClock = new VirtualClock(1000);
+  const fresh = new TestedInterface({ scheduler: replayClock });
+  const replaying = fresh.replay(fixture, { timing: true });
+  await replayClock.runAll();
+  expect(await replaying).toEqual([]);
+  expect(fresh.view().entries()).toEqual([['a', 1]]);
+});
+
+it('Fixture: unknown methods are not called', async () => {
+  const mock = new TestedInterface();
+  const fixture: SessionFixture = {
+    version: 1,
+    profile: 'mock',
+    seed: 1,
+    steps: [{ method: 'close' as MethodName, args: [], startedAt: 0, status: 'ok' }],
+  };
+  await expect(mock.replay(fixture)).rejects.toThrow("replay: unknown method 'close'!");
+  expect(mock.state).toEqual('uninitialized');
+  expect(mock.journal.size()).toEqual(0);
+});
+
+it('Fixture: a new run produces the same sequence', () => {
+  const first = new TestedInterface();
+  session(first);
+  const fixture = throughJson(first.recordFixture());
+
+  const mock = new TestedInterface();
+  session(mock);
+  expect(mock).toMatchFixture(fixture);
+
+  mock.setItemSync('extra', 1);
+  expect(mock).not.toMatchFixture(fixture);
+});
+
+it('Fixture: files', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-fixture-'));
+  try {
+    const mock = new TestedInterface();
+    session(mock);
+    const file = path.join(dir, 'bugs', 'session.json');
+    writeFixture(file, mock.recordFixture());
+    expect(readFixture(file)).toEqual(throughJson(mock.recordFixture()));
+    expect(() => readFixture(path.join(dir, 'missing.json'))).toThrow(
+      `readFixture: can't read '${path.join(dir, 'missing.json')}'`
+    );
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
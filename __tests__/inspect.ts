@@ -0,0 +1,148 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  type StorageFacade,
+  type Base as FacadeBase,
+  createStorage,
+  StorageInterface,
+  Ok,
+} from 'storage-facade';
+import {
+  MockInterface as TestedInterface,
+  getMockInterface,
+  inspectStorage,
+  getBase,
+} from '../src/index';
+import type * as Index from '../src/index';
+
+class OtherInterface extends StorageInterface {
+  interfaceName = 'OtherInterface';
+
+  storageName = '';
+
+  initSync(): Ok {
+    return new Ok();
+  }
+}
+
+it('Inspect: getMockInterface()', () => {
+  const mock = new TestedInterface();
+  const storage = createStorage({ use: mock, asyncMode: false });
+  const asyncStorage = createStorage({ use: new TestedInterface() });
+
+  expect(getMockInterface(storage)).toBe(mock);
+  expect(getMockInterface(asyncStorage)).toBeInstanceOf(TestedInterface);
+  // Nothing is read from the storage on the way
+  expect(mock.journal.size()).toEqual(1);
+  expect(mock.journal.entries()[0].method).toEqual('initSync');
+});
+
+// Like an app with its own storage-facade install next to the bundled copy
+it('Inspect: a facade from another copy of storage-facade', async () => {
+  interface Facade {
+    createStorage: typeof createStorage;
+    Base: typeof FacadeBase;
+  }
+  let other: Facade | undefined;
+  await jest.isolateModulesAsync(async () => {
+    other = await import('storage-facade');
+  });
+  const { createStorage: createOther, Base } = other as Facade;
+  const mock = new TestedInterface();
+  const storage = createOther({ use: mock, asyncMode: false });
+  expect(Object.getPrototypeOf(getBase(storage))).toBe(Base.prototype);
+  expect(getMockInterface(storage)).toBe(mock);
+  expect(mock.journal.size()).toEqual(1);
+});
+
+// Bundled with the plugins of rollup.config.mjs, like `npm run build` does,
+// so the bundle has its own copy of storage-facade
+it('Inspect: the built bundle', async () => {
+  const root = path.resolve(__dirname, '..');
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-bundle-'));
+  try {
+    const built = path.join(dir, 'index.cjs');
+    execFileSync(
+      process.execPath,
+      [
+        path.join(root, 'node_modules/rollup/dist/bin/rollup'),
+        'src/index.ts',
+        ...['--format', 'cjs', '--file', built, '--silent'],
+        '--plugin',
+        `typescript={outDir:${JSON.stringify(dir)},declaration:false,composite:false}`,
+        ...['--plugin', 'node-resolve'],
+      ],
+      { cwd: root, stdio: 'pipe' }
+    );
+    const bundle = (await import(built)) as typeof Index;
+    const mock = new bundle.MockInterface();
+    const storage = createStorage({ use: mock, asyncMode: false });
+    storage.value = 1;
+    expect(bundle.getMockInterface(storage)).toBe(mock);
+    expect(bundle.getMockStorage(storage).get('value')).toEqual(1);
+    expect(bundle.inspectStorage(storage).get('value')).toEqual(1);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}, 120_000);
+
+it('Inspect: clear errors', () => {
+  const other = createStorage({ use: new OtherInterface(), asyncMode: false });
+  expect(() => getMockInterface(other)).toThrow(
+    `the storage uses 'OtherInterface', not 'MockInterface'`
+  );
+  expect(() => getBase({} as StorageFacade)).toThrow(
+    `the value is not a storage created with 'createStorage'`
+  );
+  expect(() => inspectStorage(null as unknown as StorageFacade)).toThrow(
+    `the value is not a storage created with 'createStorage'`
+  );
+});
+
+it('Inspect: read-only view', () => {
+  const storage = createStorage({
+    use: new TestedInterface({ keyOrder: 'lexicographic' }),
+    name: 'settings',
+    asyncMode: false,
+  });
+  const view = inspectStorage(storage);
+  expect(view.name).toEqual('settings');
+  expect(view.state).toEqual('open');
+
+  storage.b = { list: [1] };
+  storage.a = 1;
+  expect(view.size).toEqual(2);
+  expect(view.keys()).toEqual(['a', 'b']);
+  expect(view.has('b')).toEqual(true);
+  expect(view.entries()).toEqual([
+    ['a', 1],
+    ['b', { list: [1] }],
+  ]);
+
+  // Copies
+  (view.get('b') as { list: number[] }).list.push(2);
+  expect(storage.b).toEqual({ list: [1] });
+  expect(Object.keys(view)).not.toContain('storage');
+
+  storage.deleteStorage();
+  expect(view.state).toEqual('deleted');
+  expect(view.size).toEqual(0);
+});
+
+it('Inspect: lifecycle state', () => {
+  const mock = new TestedInterface();
+  expect(mock.view().state).toEqual('uninitialized');
+  mock.initSync({ use: mock });
+  expect(mock.view().state).toEqual('open');
+  mock.close();
+  expect(mock.view().state).toEqual('closed');
+});
@@ -0,0 +1,132 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { createStorage } from 'storage-facade';
+import { MockInterface as TestedInterface, VirtualClock, getJournal } from '../src/index';
+
+it('Journal: sync', () => {
+  const storage = createStorage({
+    use: new TestedInterface(),
+    name: 'settings',
+    asyncMode: false,
+  });
+
+  const value = { c: [40, 42] };
+  storage.value = value;
+  value.c = [];
+  expect(storage.value).toEqual({ c: [40, 42] });
+  delete storage.value;
+  storage.clear();
+
+  const journal = getJournal(storage);
+  expect(journal.entries().map((e) => e.method)).toEqual([
+    'initSync',
+    'setItemSync',
+    'getItemSync',
+    'removeItemSync',
+    'clearSync',
+  ]);
+  expect(journal.entries().every((e) => !e.async && e.status === 'ok')).toEqual(true);
+
+  const [init, set, get] = journal.entries();
+  expect(init.args).toEqual(['settings']);
+  // Arguments are cloned when the call is made
+  expect(set.args).toEqual(['value', { c: [40, 42] }]);
+  expect(get.key).toEqual('value');
+  expect(get.result).toEqual({ c: [40, 42] });
+});
+
+it('Journal: async, timing', async () => {
+  const clock = new VirtualClock();
+  const mock = new TestedInterface({ scheduler: clock });
+  const storage = createStorage({ use: mock, delay: [10, 10] });
+
+  storage.value = 1;
+  const written = storage.value;
+  await clock.runAll();
+  await written;
+
+  const read = storage.other;
+  expect(mock.journal.pending().map((e) => e.method)).toEqual(['getItemAsync']);
+  await clock.runAll();
+  await read;
+
+  const entries = mock.journal.entries();
+  expect(entries.map((e) => [e.method, e.startedAt, e.endedAt, e.duration])).toEqual([
+    ['initAsync', 0, 10, 10],
+    ['setItemAsync', 10, 20, 10],
+    ['getItemAsync', 20, 30, 10],
+  ]);
+  expect(entries.every((e) => e.async)).toEqual(true);
+});
+
+it('Journal: errors', async () => {
+  const mock = new TestedInterface();
+  const storage = createStorage({ use: mock, delay: [0, 0] });
+
+  mock.addFault({ method: 'setItemAsync', error: Error('Offline') });
+  storage.value = 1;
+  await expect(storage.value).rejects.toThrow('Offline');
+
+  const [entry] = mock.journal.errors();
+  expect(entry.method).toEqual('setItemAsync');
+  expect(entry.error).toEqual(Error('Offline'));
+  expect(entry.result).toEqual(undefined);
+
+  const sync = new TestedInterface();
+  sync.addFault({ method: 'keySync' });
+  expect(() => sync.keySync(0)).toThrow();
+  expect(sync.journal.errors().map((e) => e.method)).toEqual(['keySync']);
+});
+
+it('Journal: filters and reset', () => {
+  const mock = new TestedInterface();
+  const storage = createStorage({ use: mock, asyncMode: false });
+
+  storage.a = 1;
+  storage.b = 2;
+  storage.a = 3;
+  expect(storage.a).toEqual(3);
+  delete storage.a;
+  storage.clear();
+
+  expect(mock.journal.writes('a').map((e) => [e.method, e.args])).toEqual([
+    ['setItemSync', ['a', 1]],
+    ['setItemSync', ['a', 3]],
+    ['removeItemSync', ['a']],
+  ]);
+  expect(mock.journal.writes().length).toEqual(5);
+  expect(mock.journal.reads('a').length).toEqual(1);
+  expect(mock.journal.byMethod('setItem').length).toEqual(3);
+  expect(mock.journal.byMethod('clearSync').length).toEqual(1);
+  expect(mock.journal.filter((e) => e.key === 'b').length).toEqual(1);
+
+  mock.resetJournal();
+  expect(mock.journal.entries()).toEqual([]);
+  expect(storage.b).toEqual(undefined);
+  expect(mock.journal.size()).toEqual(1);
+});
+
+it('Journal: maxEntries and off', () => {
+  const capped = new TestedInterface({ journal: { maxEntries: 2 } });
+  const storage = createStorage({ use: capped, asyncMode: false });
+  storage.a = 1;
+  storage.b = 2;
+  storage.c = 3;
+  expect(capped.journal.entries().map((e) => [e.id, e.key])).toEqual([
+    [3, 'b'],
+    [4, 'c'],
+  ]);
+
+  const off = new TestedInterface({ journal: false });
+  createStorage({ use: off, asyncMode: false }).a = 1;
+  expect(off.journal.enabled).toBe(false);
+  expect(off.journal.entries()).toEqual([]);
+  expect(() => off.recordFixture()).toThrow(
+    `'recordFixture': the storage was created with 'journal: false'`
+  );
+});
@@ -0,0 +1,73 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { createStorage } from 'storage-facade';
+import { MockInterface as TestedInterface, type KeyOrder, orderKeys } from '../src/index';
+
+const keys = ['c', 'a', 'd', 'b', 'e'];
+
+const entries = (keyOrder: KeyOrder, seed?: number): Array<[string, unknown]> => {
+  const storage = createStorage({
+    use: new TestedInterface({ keyOrder, seed }),
+    asyncMode: false,
+  });
+  keys.forEach((key, index) => {
+    storage[key] = index;
+  });
+  return storage.entries();
+};
+
+it('Key order: sync', () => {
+  expect(entries('insertion').map(([key]) => key)).toEqual(keys);
+  expect(entries('lexicographic').map(([key]) => key)).toEqual(['a', 'b', 'c', 'd', 'e']);
+  expect(entries('reverse').map(([key]) => key)).toEqual(['e', 'b', 'd', 'a', 'c']);
+
+  const shuffled = entries('shuffled', 1);
+  expect(shuffled.map(([key]) => key).sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+  expect(shuffled).toEqual(entries('shuffled', 1));
+  // Values stay with their keys
+  shuffled.forEach(([key, value]) => {
+    expect(value).toEqual(keys.indexOf(key));
+  });
+});
+
+it('Key order: shuffled depends on the set of keys only', () => {
+  expect(orderKeys(['a', 'b', 'c', 'd'], 'shuffled', 5)).toEqual(
+    orderKeys(['d', 'c', 'b', 'a'], 'shuffled', 5)
+  );
+  const orders = new Set(
+    [1, 2, 3, 4, 5, 6].map((seed) =>
+      orderKeys(['a', 'b', 'c', 'd'], 'shuffled', seed).join()
+    )
+  );
+  expect(orders.size).toBeGreaterThan(1);
+});
+
+it('Key order: async', async () => {
+  const storage = createStorage({
+    use: new TestedInterface({ keyOrder: 'reverse' }),
+    delay: [0, 0],
+  });
+
+  storage.a = 1;
+  await storage.a;
+  storage.b = 2;
+  await storage.b;
+
+  expect(await storage.key(0)).toEqual('b');
+  expect(await Promise.all(await storage.getEntries())).toEqual([
+    ['b', 2],
+    ['a', 1],
+  ]);
+});
+
+it('Key order: overrides the profile', () => {
+  expect(new TestedInterface({ profile: 'indexedDB' }).keyOrder).toEqual('lexicographic');
+  expect(
+    new TestedInterface({ profile: 'indexedDB', keyOrder: 'insertion' }).keyOrder
+  ).toEqual('insertion');
+});
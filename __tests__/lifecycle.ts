@@ -0,0 +1,128 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { createStorage, Ok } from 'storage-facade';
+import { MockInterface as TestedInterface, BackendRegistry } from '../src/index';
+
+it('Lifecycle: sync', () => {
+  const mock = new TestedInterface();
+  expect(mock.state).toEqual('uninitialized');
+  expect(() => mock.getItemSync('value')).toThrow('This Storage was not initialized!');
+
+  mock.initSync({ use: mock, name: 'db' });
+  expect(mock.state).toEqual('open');
+  mock.setItemSync('value', 1);
+
+  mock.deleteStorageSync();
+  expect(mock.state).toEqual('deleted');
+  expect(() => mock.setItemSync('value', 1)).toThrow('This Storage was deleted!');
+
+  // Like IndexedDB: a deleted storage can be opened again, empty
+  mock.initSync({ use: mock, name: 'db' });
+  expect(mock.state).toEqual('reopened');
+  expect(mock.getItemSync('value')).toEqual(undefined);
+  mock.setItemSync('value', 2);
+  expect(mock.getItemSync('value')).toEqual(2);
+
+  mock.deleteStorageSync();
+  expect(mock.state).toEqual('deleted');
+  mock.initSync({ use: mock, name: 'db' });
+  expect(mock.state).toEqual('reopened');
+
+  mock.close();
+  expect(mock.state).toEqual('closed');
+  expect(mock.initSync({ use: mock })).toEqual(Error('This Storage was closed!'));
+  expect(() => mock.sizeSync()).toThrow('This Storage was closed!');
+});
+
+it('Lifecycle: async', async () => {
+  const mock = new TestedInterface();
+  mock.delay = [0, 0];
+  await expect(mock.getItemAsync('value')).rejects.toThrow(
+    'This Storage was not initialized!'
+  );
+
+  await mock.initAsync({ use: mock, name: 'db' });
+  expect(mock.state).toEqual('open');
+  await mock.setItemAsync('value', 1);
+
+  await mock.deleteStorageAsync();
+  expect(mock.state).toEqual('deleted');
+  await expect(mock.setItemAsync('value', 1)).rejects.toThrow(
+    'This Storage was deleted!'
+  );
+
+  await mock.initAsync({ use: mock, name: 'db' });
+  expect(mock.state).toEqual('reopened');
+  expect(await mock.getItemAsync('value')).toEqual(undefined);
+
+  mock.close();
+  await expect(mock.initAsync({ use: mock })).rejects.toThrow('This Storage was closed!');
+  expect(mock.state).toEqual('closed');
+});
+
+it('Lifecycle: deleted by another instance', () => {
+  const shared = new BackendRegistry();
+  const storage = createStorage({
+    use: new TestedInterface({ shared }),
+    name: 'db',
+    asyncMode: false,
+  });
+  const mock = new TestedInterface({ shared });
+  mock.initSync({ use: mock, name: 'db' });
+
+  storage.value = 1;
+  storage.deleteStorage();
+  expect(mock.state).toEqual('deleted');
+  expect(() => mock.getItemSync('value')).toThrow('This Storage was deleted!');
+
+  // A new backend, the facade still sees the deleted one
+  mock.initSync({ use: mock, name: 'db' });
+  mock.setItemSync('value', 2);
+  expect(mock.state).toEqual('reopened');
+  expect(() => storage.value).toThrow('This Storage was deleted!');
+});
+
+it('Lifecycle: init of an open storage', async () => {
+  const mock = new TestedInterface();
+  mock.initSync({ use: mock, name: 'db' });
+  mock.setItemSync('value', 1);
+
+  // Another name would swap the backend
+  mock.delay = [5, 5];
+  expect(mock.initSync({ use: mock, name: 'other', delay: [0, 0] })).toEqual(
+    Error("This Storage is already open as 'db'!")
+  );
+  expect(mock.delay).toEqual([5, 5]);
+  expect(mock.state).toEqual('open');
+  expect(mock.getItemSync('value')).toEqual(1);
+
+  // The same name keeps the backend
+  expect(mock.initSync({ use: mock, name: 'db', delay: [0, 0] })).toEqual(new Ok());
+  expect(mock.delay).toEqual([0, 0]);
+  expect(mock.getItemSync('value')).toEqual(1);
+
+  mock.deleteStorageSync();
+  mock.initSync({ use: mock, name: 'db' });
+  await expect(mock.initAsync({ use: mock, name: 'other', delay: [1, 1] })).rejects.toThrow(
+    "This Storage is already open as 'db'!"
+  );
+  expect(mock.delay).toEqual([0, 0]);
+  expect(mock.state).toEqual('reopened');
+});
+
+it('Lifecycle: two facades over one instance', async () => {
+  const mock = new TestedInterface();
+  const first = createStorage({ use: mock, asyncMode: false });
+  first.value = 1;
+  const second = createStorage({ use: mock, asyncMode: false });
+  expect(second.value).toEqual(1);
+
+  mock.delay = [0, 0];
+  const async = createStorage({ use: mock });
+  expect(await async.value).toEqual(1);
+});
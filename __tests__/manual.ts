@@ -0,0 +1,99 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { createStorage } from 'storage-facade';
+import {
+  MockInterface as TestedInterface,
+  ManualControl,
+  settlePromises,
+} from '../src/index';
+
+const setup = (): { mock: TestedInterface; manual: ManualControl } => {
+  const mock = new TestedInterface({ manual: true });
+  mock.initSync({ use: mock });
+  return { mock, manual: mock.manual as ManualControl };
+};
+
+it('Manual: operations wait for the test', async () => {
+  const { mock, manual } = setup();
+  let done = false;
+  const result = mock.setItemAsync('a', 1).then(() => {
+    done = true;
+  });
+
+  await settlePromises();
+  expect(done).toEqual(false);
+  expect(mock.storage.has('a')).toEqual(false);
+  expect(
+    manual.pending().map(({ method, key, value }) => ({ method, key, value }))
+  ).toEqual([{ method: 'setItemAsync', key: 'a', value: 1 }]);
+
+  expect(manual.resolveAll()).toEqual(1);
+  await result;
+  expect(done).toEqual(true);
+  expect(mock.storage.get('a')).toEqual(1);
+  expect(manual.size()).toEqual(0);
+});
+
+it('Manual: resolve out of order', async () => {
+  const { mock, manual } = setup();
+  const order: string[] = [];
+  const first = mock.setItemAsync('a', 'first').then(() => order.push('first'));
+  const second = mock.setItemAsync('a', 'second').then(() => order.push('second'));
+
+  manual.reverse();
+  manual.resolveAll();
+  await Promise.all([first, second]);
+  expect(order).toEqual(['second', 'first']);
+  expect(mock.storage.get('a')).toEqual('first');
+});
+
+it('Manual: reorder, move and resolveWhere', async () => {
+  const { mock, manual } = setup();
+  void mock.setItemAsync('b', 1);
+  void mock.setItemAsync('a', 1);
+  void mock.setItemAsync('c', 1);
+
+  manual.reorder((x, y) => (x.key ?? '').localeCompare(y.key ?? ''));
+  expect(manual.pending().map((op) => op.key)).toEqual(['a', 'b', 'c']);
+  manual.move(manual.pending()[2], 0);
+  expect(manual.pending().map((op) => op.key)).toEqual(['c', 'a', 'b']);
+
+  expect(manual.resolveWhere((op) => op.key !== 'a')).toEqual(2);
+  await settlePromises();
+  expect([...mock.storage.keys()].sort()).toEqual(['b', 'c']);
+  expect(manual.pending().map((op) => op.key)).toEqual(['a']);
+});
+
+it('Manual: reject without applying', async () => {
+  const { mock, manual } = setup();
+  const write = mock.setItemAsync('a', 1);
+  const [operation] = manual.pending();
+
+  operation.reject();
+  // Settling twice has no effect
+  operation.resolve();
+  await expect(write).rejects.toThrow(`'setItemAsync' was rejected manually`);
+  expect(mock.storage.has('a')).toEqual(false);
+
+  const read = mock.getItemAsync('a');
+  manual.rejectAll(Error('Disk failure'));
+  await expect(read).rejects.toThrow('Disk failure');
+});
+
+it('Manual: drain with storage-facade', async () => {
+  const manual = new ManualControl();
+  const storage = createStorage({ use: new TestedInterface({ manual }) });
+
+  storage.value = 1;
+  // initAsync, then the write
+  expect(await manual.drain()).toEqual(2);
+
+  const size = storage.size();
+  expect(await manual.drain()).toEqual(1);
+  expect(await size).toEqual(1);
+});
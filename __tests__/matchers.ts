@@ -0,0 +1,97 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { createStorage } from 'storage-facade';
+import { MockInterface as TestedInterface, VirtualClock } from '../src/index';
+import { mockStorageMatchers } from '../src/matchers';
+
+expect.extend(mockStorageMatchers);
+
+// Jest colors the output
+// eslint-disable-next-line no-control-regex
+const plain = (text: string): string => text.replace(/\u001b\[\d+m/g, '');
+
+const failure = (assertion: () => void): string => {
+  try {
+    assertion();
+  } catch (e) {
+    return plain((e as Error).message);
+  }
+  throw Error('The assertion passed');
+};
+
+it('Matchers: stored keys and values', () => {
+  const storage = createStorage({ use: new TestedInterface(), asyncMode: false });
+  storage.value = { list: [1, 2] };
+
+  expect(storage).toHaveStoredKey('value');
+  expect(storage).not.toHaveStoredKey('other');
+  expect(storage).toHaveStoredValue('value', { list: [1, 2] });
+  expect(storage).not.toHaveStoredValue('value', { list: [1] });
+  expect(storage).toHaveStoredEntries({ value: { list: [1, 2] } });
+
+  expect(failure(() => expect(storage).toHaveStoredKey('other'))).toMatch(
+    `Expected key "other" to be stored\nStorage 'storage' (open):\n  {"value": {"list": [1, 2]}}`
+  );
+  expect(failure(() => expect(storage).toHaveStoredValue('other', 1))).toMatch(
+    'Key "other" is not stored'
+  );
+  const diff = failure(() => expect(storage).toHaveStoredValue('value', { list: [1] }));
+  expect(diff).toMatch('Value of "value":');
+  expect(diff).toMatch('+     2,');
+  expect(
+    failure(() => expect(storage).toHaveStoredEntries({ value: { list: [1, 2] }, a: 1 }))
+  ).toMatch('-   "a": 1,');
+});
+
+it('Matchers: writes', () => {
+  const mock = new TestedInterface();
+  const storage = createStorage({ use: mock, asyncMode: false });
+  storage.value = 1;
+  storage.value = 2;
+  delete storage.other;
+
+  expect(storage).toHaveBeenWritten('value');
+  expect(mock).toHaveBeenWritten('value', 2);
+  expect(storage).not.toHaveBeenWritten('other');
+  expect(failure(() => expect(storage).toHaveBeenWritten('value', 1))).toMatch(
+    'Expected "value" to be written 1 time(s)\nWritten: 2 time(s)\n  1\n  2'
+  );
+});
+
+it('Matchers: deleted storage', () => {
+  const storage = createStorage({ use: new TestedInterface(), asyncMode: false });
+  expect(storage).not.toBeDeletedStorage();
+  expect(failure(() => expect(storage).toBeDeletedStorage())).toMatch(
+    'Expected the storage to be deleted'
+  );
+  storage.deleteStorage();
+  expect(storage).toBeDeletedStorage();
+});
+
+it('Matchers: pending operations', async () => {
+  const clock = new VirtualClock();
+  const mock = new TestedInterface({ scheduler: clock });
+  mock.initSync({ use: mock });
+
+  const write = mock.setItemAsync('value', 1);
+  const size = mock.sizeAsync();
+  expect(mock).not.toHaveNoPendingOperations();
+  expect(failure(() => expect(mock).toHaveNoPendingOperations())).toMatch(
+    'Pending operations:\n  setItemAsync("value") started at 0\n  sizeAsync() started at 0'
+  );
+
+  await clock.runAll();
+  await Promise.all([write, size]);
+  expect(mock).toHaveNoPendingOperations();
+});
+
+it('Matchers: not a mock storage', () => {
+  expect(() => expect({}).toHaveStoredKey('value')).toThrow(
+    `the value is not a storage created with 'createStorage'`
+  );
+});
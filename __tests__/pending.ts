@@ -0,0 +1,81 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { createStorage } from 'storage-facade';
+import { MockInterface as TestedInterface, VirtualClock } from '../src/index';
+
+it('Pending: pendingOperations()', async () => {
+  const clock = new VirtualClock();
+  const mock = new TestedInterface({ scheduler: clock });
+  mock.initSync({ use: mock });
+  mock.delay = [10, 10];
+
+  const write = mock.setItemAsync('a', 1);
+  await clock.advanceBy(5);
+  const read = mock.getItemAsync('a');
+  const size = mock.sizeAsync();
+
+  expect(mock.pendingOperations()).toEqual([
+    { id: 1, method: 'setItemAsync', key: 'a', startedAt: 0 },
+    { id: 2, method: 'getItemAsync', key: 'a', startedAt: 5 },
+    { id: 3, method: 'sizeAsync', key: undefined, startedAt: 5 },
+  ]);
+
+  await clock.advanceBy(5);
+  await write;
+  expect(mock.pendingOperations().map((op) => op.id)).toEqual([2, 3]);
+
+  await clock.runAll();
+  await Promise.all([read, size]);
+  expect(mock.pendingOperations()).toEqual([]);
+});
+
+it('Pending: failed operations are removed', async () => {
+  const mock = new TestedInterface();
+  mock.initSync({ use: mock });
+  mock.addFault({ method: 'setItemAsync' });
+
+  await expect(mock.setItemAsync('a', 1)).rejects.toThrow();
+  expect(mock.pendingOperations()).toEqual([]);
+});
+
+it('Pending: whenIdle() with storage-facade', async () => {
+  // 'fifo', so the removal is applied after the write
+  const mock = new TestedInterface({ serialization: 'fifo' });
+  const storage = createStorage({ use: mock, delay: [1, 20] });
+
+  storage.a = 1;
+  storage.b = 2;
+  delete storage.a;
+  await mock.whenIdle();
+
+  expect(mock.pendingOperations()).toEqual([]);
+  expect([...mock.storage.entries()]).toEqual([['b', 2]]);
+  // Already idle
+  await mock.whenIdle();
+});
+
+it('Pending: whenIdle() with a virtual clock', async () => {
+  const clock = new VirtualClock();
+  const mock = new TestedInterface({ scheduler: clock });
+  mock.initSync({ use: mock });
+
+  mock.delay = [10, 20];
+  void mock.setItemAsync('a', 1);
+  void mock.setItemAsync('b', 1);
+  let idle = false;
+  const waiting = mock.whenIdle().then(() => {
+    idle = true;
+  });
+  await clock.runNext();
+  expect(idle).toEqual(false);
+
+  await clock.runAll();
+  await waiting;
+  expect(idle).toEqual(true);
+  expect(mock.storage.size).toEqual(2);
+});
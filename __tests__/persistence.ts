@@ -0,0 +1,136 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { createStorage } from 'storage-facade';
+import {
+  MockInterface as TestedInterface,
+  MemoryPersistence,
+  BackendRegistry,
+  type PersistenceAdapter,
+} from '../src/index';
+import { filePersistence } from '../src/node';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-storage-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// A new instance is like a restarted app
+const restart = (persistence: PersistenceAdapter): Record<string, unknown> =>
+  createStorage({
+    use: new TestedInterface({ persistence }),
+    name: 'settings',
+    asyncMode: false,
+  });
+
+it('Persistence: memory', () => {
+  const persistence = new MemoryPersistence();
+  const storage = restart(persistence);
+  storage.value = { a: 1 };
+  storage.other = 2;
+
+  const restarted = restart(persistence);
+  expect(restarted.value).toEqual({ a: 1 });
+  expect(restarted.other).toEqual(2);
+  expect(persistence.names()).toEqual(['settings']);
+});
+
+it('Persistence: v8 file keeps structured clone values', () => {
+  const persistence = filePersistence({ dir: path.join(dir, 'nested') });
+  const storage = restart(persistence);
+  const date = new Date(0);
+  storage.date = date;
+  storage.nothing = undefined;
+  storage.value = 1;
+  delete storage.value;
+
+  expect(fs.readdirSync(path.join(dir, 'nested'))).toEqual(['settings.v8']);
+  const restarted = restart(persistence);
+  expect((restarted.date as Date).getTime()).toEqual(0);
+  expect(restarted.nothing).toEqual(undefined);
+  expect(restarted.value).toEqual(undefined);
+});
+
+it('Persistence: json file', () => {
+  const persistence = filePersistence({ dir, format: 'json' });
+  const storage = restart(persistence);
+  storage.date = new Date(0);
+  storage.list = [1, 'two'];
+
+  const file = path.join(dir, 'settings.json');
+  expect(JSON.parse(fs.readFileSync(file, 'utf8'))).toEqual([
+    ['date', '1970-01-01T00:00:00.000Z'],
+    ['list', [1, 'two']],
+  ]);
+  expect(restart(persistence).date).toEqual('1970-01-01T00:00:00.000Z');
+});
+
+it('Persistence: atomic writes and deleteStorage', () => {
+  const persistence = filePersistence({ dir });
+  const storage = createStorage({
+    use: new TestedInterface({ persistence }),
+    name: 'app/1',
+    asyncMode: false,
+  });
+  storage.value = 1;
+  expect(fs.readdirSync(dir)).toEqual(['app%2F1.v8']);
+
+  storage.clear();
+  expect(fs.readdirSync(dir)).toEqual(['app%2F1.v8']);
+  storage.deleteStorage();
+  expect(fs.readdirSync(dir)).toEqual([]);
+});
+
+it('Persistence: unreadable file', async () => {
+  const file = path.join(dir, 'settings.json');
+  fs.writeFileSync(file, '{');
+  const mock = new TestedInterface({
+    persistence: filePersistence({ dir, format: 'json' }),
+  });
+  const result = mock.initSync({ use: mock, name: 'settings' });
+  expect(result).toBeInstanceOf(Error);
+  expect((result as Error).message).toMatch("filePersistence: can't read");
+  expect(mock.state).toEqual('uninitialized');
+  expect(() => mock.setItemSync('value', 1)).toThrow('This Storage was not initialized!');
+  expect(fs.readFileSync(file, 'utf8')).toEqual('{');
+
+  mock.delay = [0, 0];
+  await expect(mock.initAsync({ use: mock, name: 'settings' })).rejects.toThrow(
+    "filePersistence: can't read"
+  );
+  expect(mock.state).toEqual('uninitialized');
+  expect(fs.readFileSync(file, 'utf8')).toEqual('{');
+});
+
+it('Persistence: async and shared', async () => {
+  const persistence = new MemoryPersistence();
+  persistence.save('settings', [['value', 1]]);
+  const registry = new BackendRegistry();
+  const storage = createStorage({
+    use: new TestedInterface({ persistence, shared: registry }),
+    name: 'settings',
+  });
+  expect(await storage.value).toEqual(1);
+
+  storage.value = 2;
+  await storage.value;
+  // The backend is loaded once, changes are not overwritten by the file
+  const other = createStorage({
+    use: new TestedInterface({ persistence, shared: registry }),
+    name: 'settings',
+  });
+  expect(await other.value).toEqual(2);
+  expect(persistence.load('settings')).toEqual([['value', 2]]);
+});
@@ -0,0 +1,119 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { createStorage } from 'storage-facade';
+import {
+  MockInterface as TestedInterface,
+  BackendRegistry,
+  jsonRoundTrip,
+} from '../src/index';
+
+it('Profiles: localStorage values are JSON', () => {
+  const storage = createStorage({
+    use: new TestedInterface({ profile: 'localStorage' }),
+  });
+
+  storage.date = new Date(0);
+  storage.map = new Map([['a', 1]]);
+  storage.array = [1, undefined, 3];
+  storage.undef = undefined;
+  storage.negativeZero = -0;
+
+  expect(storage.date).toEqual('1970-01-01T00:00:00.000Z');
+  expect(storage.map).toEqual({});
+  expect(storage.array).toEqual([1, null, 3]);
+  expect(storage.undef).toEqual(undefined);
+  expect(Object.is(storage.negativeZero, 0)).toEqual(true);
+
+  expect(() => {
+    storage.big = BigInt(1);
+  }).toThrow(TypeError);
+  expect(() => {
+    storage.fn = { f: () => 1 };
+  }).not.toThrow();
+  expect(storage.fn).toEqual({});
+});
+
+it('Profiles: jsonRoundTrip', () => {
+  expect(jsonRoundTrip({ a: 1, b: undefined })).toEqual({ a: 1 });
+  expect(jsonRoundTrip(undefined)).toEqual(undefined);
+  expect(jsonRoundTrip(NaN)).toEqual(null);
+});
+
+it('Profiles: localStorage is sync only', async () => {
+  const mock = new TestedInterface({ profile: 'localStorage' });
+  expect(mock.defaultAsyncMode()).toEqual(false);
+
+  const storage = createStorage({ use: mock, asyncMode: true, delay: [0, 0] });
+  await expect(storage.value).rejects.toThrow(`'initAsync' is not implemented!`);
+  await expect(mock.getItemAsync('value')).rejects.toThrow(
+    `'getItemAsync' is not implemented!`
+  );
+});
+
+it('Profiles: localStorage reserved key', () => {
+  const storage = createStorage({
+    use: new TestedInterface({ profile: 'localStorage' }),
+    name: 'settings',
+  });
+
+  expect(() => {
+    storage['__settings-keys-array'] = 1;
+  }).toThrow(`key '__settings-keys-array' cannot be used.`);
+});
+
+it('Profiles: sessionStorage is never shared', () => {
+  const registry = new BackendRegistry();
+  const storage = createStorage({
+    use: new TestedInterface({ profile: 'sessionStorage', shared: registry }),
+  });
+  const storage2 = createStorage({
+    use: new TestedInterface({ profile: 'sessionStorage', shared: registry }),
+  });
+  const local = createStorage({
+    use: new TestedInterface({ profile: 'localStorage', shared: registry }),
+  });
+  const local2 = createStorage({
+    use: new TestedInterface({ profile: 'localStorage', shared: registry }),
+  });
+
+  storage.value = 1;
+  expect(storage2.value).toEqual(undefined);
+  local.value = 1;
+  expect(local2.value).toEqual(1);
+});
+
+it('Profiles: indexedDB', async () => {
+  const mock = new TestedInterface({ profile: 'indexedDB' });
+  expect(mock.defaultAsyncMode()).toEqual(true);
+
+  const storage = createStorage({ use: mock, delay: [0, 0] });
+  storage.b = new Date(0);
+  await storage.b;
+  storage.a = 1;
+  await storage.a;
+  storage.c = 1;
+  await storage.c;
+
+  expect(((await storage.b) as Date).getTime()).toEqual(0);
+  // Sorted keys
+  expect(await Promise.all(await storage.getEntries())).toEqual([
+    ['a', 1],
+    ['b', new Date(0)],
+    ['c', 1],
+  ]);
+
+  storage.fn = () => 1;
+  await expect(storage.fn).rejects.toMatchObject({ name: 'DataCloneError' });
+
+  const sync = createStorage({
+    use: new TestedInterface({ profile: 'indexedDB' }),
+    asyncMode: false,
+  });
+  expect(() => sync.value).toThrow(`'initSync' is not implemented!`);
+  expect(() => mock.getItemSync('a')).toThrow(`'getItemSync' is not implemented!`);
+});
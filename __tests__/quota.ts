@@ -0,0 +1,101 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { createStorage } from 'storage-facade';
+import { MockInterface as TestedInterface, estimateSize, getMockStorage } from '../src/index';
+
+const quotaError = (f: () => void): DOMException | undefined => {
+  try {
+    f();
+  } catch (e) {
+    return e as DOMException;
+  }
+  return undefined;
+};
+
+it('Quota: estimateSize', () => {
+  expect(estimateSize('abc')).toEqual(6);
+  expect(estimateSize(42)).toEqual(8);
+  expect(estimateSize(true)).toEqual(4);
+  expect(estimateSize(null)).toEqual(0);
+  expect(estimateSize(undefined)).toEqual(0);
+  expect(estimateSize({ ab: 'cd', n: [1, 2] })).toEqual(4 + 4 + 2 + 16);
+  expect(estimateSize(new Uint8Array(10))).toEqual(10);
+  expect(estimateSize(new Map([['a', 1]]))).toEqual(2 + 8);
+
+  const cyclic: Record<string, unknown> = { a: 1 };
+  cyclic.self = cyclic;
+  expect(estimateSize(cyclic)).toEqual(2 + 8 + 8);
+});
+
+it('Quota: max value bytes', () => {
+  const storage = createStorage({
+    use: new TestedInterface({ quota: { maxValueBytes: 10 } }),
+    asyncMode: false,
+  });
+
+  storage.value = 'abcde';
+  const error = quotaError(() => {
+    storage.value = 'abcdef';
+  });
+  expect(error).toBeInstanceOf(DOMException);
+  expect(error?.name).toEqual('QuotaExceededError');
+  expect(error?.message).toMatch(`value of 'value' is 12 bytes, max: 10`);
+  expect(storage.value).toEqual('abcde');
+});
+
+it('Quota: max total bytes', () => {
+  const storage = createStorage({
+    use: new TestedInterface({ quota: { maxTotalBytes: 30 } }),
+    asyncMode: false,
+  });
+
+  storage.a = 'abcdefg'; // 2 + 14
+  storage.b = 'abcdef'; // 2 + 12
+  expect(quotaError(() => (storage.c = 1))?.name).toEqual('QuotaExceededError');
+
+  // Replacing a value counts its new size only
+  storage.b = 'abcdef';
+  storage.a = 1; // 2 + 8
+  storage.b = 1;
+  storage.c = 1;
+  expect(storage.size()).toEqual(3);
+});
+
+it('Quota: max keys', () => {
+  const storage = createStorage({
+    use: new TestedInterface({ quota: { maxKeys: 2 } }),
+    asyncMode: false,
+  });
+
+  storage.a = 1;
+  storage.b = 1;
+  storage.a = 2;
+  expect(quotaError(() => (storage.c = 1))?.name).toEqual('QuotaExceededError');
+
+  delete storage.a;
+  storage.c = 1;
+  expect(storage.entries()).toEqual([
+    ['b', 1],
+    ['c', 1],
+  ]);
+});
+
+it('Quota: async rejects', async () => {
+  const storage = createStorage({
+    use: new TestedInterface({ quota: { maxValueBytes: 4 } }),
+    delay: [0, 0],
+  });
+
+  storage.value = 'abc';
+  await expect(storage.value).rejects.toMatchObject({ name: 'QuotaExceededError' });
+  expect(getMockStorage(storage).has('value')).toEqual(false);
+
+  storage.value = 'ab';
+  await storage.value;
+  expect(await storage.value).toEqual('ab');
+});
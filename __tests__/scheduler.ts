@@ -0,0 +1,131 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { createStorage } from 'storage-facade';
+import { MockInterface as TestedInterface, VirtualClock } from '../src/index';
+import type * as Index from '../src/index';
+
+it('VirtualClock: nothing settles until the clock moves', async () => {
+  const clock = new VirtualClock();
+  const mock = new TestedInterface({ scheduler: clock });
+  mock.initSync({ use: mock });
+
+  mock.delay = [50, 50];
+  let settled = false;
+  const promise = mock.setItemAsync('value', 1).then(() => {
+    settled = true;
+  });
+
+  await clock.advanceBy(0);
+  expect(settled).toEqual(false);
+  expect(clock.pendingTimers()).toEqual(1);
+
+  expect(await clock.runNext()).toEqual(true);
+  await promise;
+  expect(settled).toEqual(true);
+  expect(mock.storage.get('value')).toEqual(1);
+  expect(await clock.runNext()).toEqual(false);
+});
+
+it('VirtualClock: advanceBy', async () => {
+  const clock = new VirtualClock();
+  const mock = new TestedInterface({ scheduler: clock });
+  mock.initSync({ use: mock });
+  const order: string[] = [];
+
+  mock.delay = { setItemAsync: [30, 30], removeItemAsync: [10, 10] };
+  const set = mock.setItemAsync('value', 1).then(() => order.push('set'));
+  const remove = mock.removeItemAsync('value').then(() => order.push('remove'));
+
+  await clock.advanceBy(9);
+  expect(order).toEqual([]);
+  expect(clock.now()).toEqual(9);
+
+  await clock.advanceBy(1);
+  expect(order).toEqual(['remove']);
+
+  await clock.advanceBy(20);
+  await Promise.all([set, remove]);
+  expect(order).toEqual(['remove', 'set']);
+  expect(mock.storage.get('value')).toEqual(1);
+  expect(clock.now()).toEqual(30);
+  await expect(clock.advanceBy(-10)).rejects.toThrow(
+    "VirtualClock: can't go back in time, got -10 ms!"
+  );
+  expect(clock.now()).toEqual(30);
+});
+
+it('VirtualClock: timer order', async () => {
+  const clock = new VirtualClock();
+  const order: number[] = [];
+  [30, 10, 20, 10, 0, 30].forEach((ms, i) => {
+    clock.setTimeout(() => order.push(i), ms);
+  });
+  expect(await clock.runAll()).toEqual(6);
+  expect(order).toEqual([4, 1, 3, 2, 0, 5]);
+});
+
+it('VirtualClock: runAll with storage-facade', async () => {
+  const clock = new VirtualClock();
+  const storage = createStorage({
+    use: new TestedInterface({ scheduler: clock }),
+    delay: [1000, 5000],
+  });
+
+  storage.value = 42;
+  const value = storage.value as Promise<unknown>;
+  expect(await clock.runAll()).toEqual(2); // init + set
+  await value;
+
+  const read = storage.value as Promise<unknown>;
+  expect(await clock.runAll()).toEqual(1);
+  expect(await read).toEqual(42);
+  expect(clock.now()).toBeGreaterThanOrEqual(3000);
+});
+
+it.each([false, true])(
+  'VirtualClock: works with Jest fake timers, legacy: %s',
+  async (legacy) => {
+    jest.useFakeTimers({ legacyFakeTimers: legacy });
+    const clock = new VirtualClock();
+    const storage = createStorage({
+      use: new TestedInterface({ scheduler: clock }),
+    });
+
+    storage.value = 1;
+    const value = storage.value as Promise<unknown>;
+    await clock.runAll();
+    await value;
+
+    const read = storage.value as Promise<unknown>;
+    await clock.runAll();
+    expect(await read).toEqual(1);
+    jest.useRealTimers();
+  }
+);
+
+// Like `fakeTimers: { enableGlobally: true }`: the mock is imported
+// when `setTimeout` is already fake
+it('VirtualClock: imported with Jest fake timers', async () => {
+  jest.useFakeTimers();
+  let loaded: typeof Index | undefined;
+  await jest.isolateModulesAsync(async () => {
+    loaded = await import('../src/index');
+  });
+  const { MockInterface, VirtualClock: Clock } = loaded as typeof Index;
+  const clock = new Clock();
+  const storage = createStorage({ use: new MockInterface({ scheduler: clock }) });
+
+  storage.value = 1;
+  const value = storage.value as Promise<unknown>;
+  expect(await clock.runAll()).toEqual(2);
+  await value;
+  const read = storage.value as Promise<unknown>;
+  expect(await clock.runAll()).toEqual(1);
+  expect(await read).toEqual(1);
+  jest.useRealTimers();
+});
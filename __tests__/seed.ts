@@ -0,0 +1,92 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { createStorage } from 'storage-facade';
+import {
+  MockInterface as TestedInterface,
+  VirtualClock,
+  createRandom,
+  randomInRange,
+} from '../src/index';
+
+// The delays the operations wait for, they decide the completion order
+const delaysOf = async (seed: number): Promise<unknown[]> => {
+  const spy = jest.spyOn(globalThis, 'setTimeout');
+  const storage = createStorage({
+    use: new TestedInterface({ seed }),
+    delay: [0, 20],
+  });
+  await Promise.all(['a', 'b', 'c', 'd', 'e', 'f'].map(async (key) => storage[key]));
+  const delays = spy.mock.calls.map(([, ms]) => ms);
+  spy.mockRestore();
+  return delays;
+};
+
+// Real timers started a few microseconds apart can swap places,
+// so the order is checked against the virtual clock
+const settleOrder = async (seed: number): Promise<string[]> => {
+  const clock = new VirtualClock();
+  const storage = createStorage({
+    use: new TestedInterface({ seed, scheduler: clock }),
+    delay: [0, 20],
+  });
+
+  const order: string[] = [];
+  const reads = Promise.all(
+    ['a', 'b', 'c', 'd', 'e', 'f'].map(async (key) => {
+      await storage[key];
+      order.push(key);
+    })
+  );
+  await clock.runAll();
+  await reads;
+  return order;
+};
+
+it('Seed: same seed, same numbers', () => {
+  const a = createRandom(42);
+  const b = createRandom(42);
+  const c = createRandom(43);
+
+  const seqA = Array.from({ length: 10 }, () => randomInRange(0, 100, a));
+  const seqB = Array.from({ length: 10 }, () => randomInRange(0, 100, b));
+  const seqC = Array.from({ length: 10 }, () => randomInRange(0, 100, c));
+
+  expect(seqA).toEqual(seqB);
+  expect(seqA).not.toEqual(seqC);
+  seqA.forEach((n) => {
+    expect(n).toBeGreaterThanOrEqual(0);
+    expect(n).toBeLessThanOrEqual(100);
+  });
+});
+
+it('Seed: can be read', () => {
+  expect(new TestedInterface({ seed: 7 }).seed).toEqual(7);
+
+  const unseeded = new TestedInterface();
+  expect(Number.isInteger(unseeded.seed)).toEqual(true);
+
+  // The seed of an unseeded run reproduces it
+  const replay = new TestedInterface({ seed: unseeded.seed });
+  expect(randomInRange(0, 1000, replay.random)).toEqual(
+    randomInRange(0, 1000, unseeded.random)
+  );
+});
+
+it('Seed: reproducible delays', async () => {
+  const delays = await delaysOf(1);
+  expect(delays).toHaveLength(7); // init and 6 reads
+  expect(await delaysOf(1)).toEqual(delays);
+  expect(await delaysOf(2)).not.toEqual(delays);
+});
+
+it('Seed: reproducible completion order', async () => {
+  const order = await settleOrder(1);
+  expect(order).not.toEqual(['a', 'b', 'c', 'd', 'e', 'f']);
+  expect(await settleOrder(1)).toEqual(order);
+  expect(await settleOrder(2)).toEqual(await settleOrder(2));
+});
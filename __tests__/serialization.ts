@@ -0,0 +1,93 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import {
+  MockInterface as TestedInterface,
+  VirtualClock,
+  type Serialization,
+} from '../src/index';
+
+interface Run {
+  order: string[];
+  value: unknown;
+  time: number;
+}
+
+// A slow write to 'a', then a fast write to 'a' and a fast write to 'b'
+const run = async (serialization: Serialization): Promise<Run> => {
+  const clock = new VirtualClock();
+  const mock = new TestedInterface({ scheduler: clock, serialization });
+  mock.initSync({ use: mock });
+  const order: string[] = [];
+
+  mock.delay = [50, 50];
+  const slow = mock.setItemAsync('a', 'slow').then(() => order.push('a: slow'));
+  mock.delay = [10, 10];
+  const fast = mock.setItemAsync('a', 'fast').then(() => order.push('a: fast'));
+  const other = mock.setItemAsync('b', 1).then(() => order.push('b'));
+
+  await clock.runAll();
+  await Promise.all([slow, fast, other]);
+  return { order, value: mock.storage.get('a'), time: clock.now() };
+};
+
+it('Serialization: concurrent (default)', async () => {
+  expect(new TestedInterface().serialization).toEqual('concurrent');
+  expect(await run('concurrent')).toEqual({
+    order: ['a: fast', 'b', 'a: slow'],
+    value: 'slow',
+    time: 50,
+  });
+});
+
+it('Serialization: fifo', async () => {
+  expect(await run('fifo')).toEqual({
+    order: ['a: slow', 'a: fast', 'b'],
+    value: 'fast',
+    time: 70,
+  });
+});
+
+it('Serialization: per-key', async () => {
+  expect(await run('per-key')).toEqual({
+    order: ['b', 'a: slow', 'a: fast'],
+    value: 'fast',
+    time: 60,
+  });
+});
+
+it('Serialization: per-key, operations without a key wait for all', async () => {
+  const clock = new VirtualClock();
+  const mock = new TestedInterface({ scheduler: clock, serialization: 'per-key' });
+  mock.initSync({ use: mock });
+  const order: string[] = [];
+
+  mock.delay = [30, 30];
+  const a = mock.setItemAsync('a', 1).then(() => order.push('a'));
+  mock.delay = [10, 10];
+  const b = mock.setItemAsync('b', 1).then(() => order.push('b'));
+  const size = mock.sizeAsync().then((n) => order.push(`size: ${String(n)}`));
+  const c = mock.setItemAsync('c', 1).then(() => order.push('c'));
+
+  await clock.runAll();
+  await Promise.all([a, b, size, c]);
+  expect(order).toEqual(['b', 'a', 'size: 2', 'c']);
+});
+
+it('Serialization: a failed operation does not block the queue', async () => {
+  const clock = new VirtualClock();
+  const mock = new TestedInterface({ scheduler: clock, serialization: 'fifo' });
+  mock.initSync({ use: mock });
+  mock.addFault({ method: 'setItemAsync', times: 1 });
+
+  const failed = mock.setItemAsync('a', 1).catch(() => 'failed');
+  const next = mock.setItemAsync('a', 2);
+  await clock.runAll();
+  expect(await failed).toEqual('failed');
+  await next;
+  expect(mock.storage.get('a')).toEqual(2);
+});
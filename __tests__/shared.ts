@@ -0,0 +1,133 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { createStorage } from 'storage-facade';
+import {
+  MockInterface as TestedInterface,
+  BackendRegistry,
+  sharedBackends,
+  resetAllBackends,
+} from '../src/index';
+
+beforeEach(() => {
+  resetAllBackends();
+});
+
+it('Shared: same name, same data', () => {
+  const storage = createStorage({
+    use: new TestedInterface({ shared: true }),
+    name: 'settings',
+    asyncMode: false,
+  });
+  const storage2 = createStorage({
+    use: new TestedInterface({ shared: true }),
+    name: 'settings',
+    asyncMode: false,
+  });
+  const other = createStorage({
+    use: new TestedInterface({ shared: true }),
+    name: 'other',
+    asyncMode: false,
+  });
+  const notShared = createStorage({
+    use: new TestedInterface(),
+    name: 'settings',
+    asyncMode: false,
+  });
+
+  storage.value = 10;
+  expect(storage2.value).toEqual(10);
+  expect(other.value).toEqual(undefined);
+  expect(notShared.value).toEqual(undefined);
+
+  delete storage2.value;
+  expect(storage.value).toEqual(undefined);
+  expect(sharedBackends.names()).toEqual(['settings', 'other']);
+});
+
+it('Shared: suites are isolated by resetAllBackends (start)', async () => {
+  const storage = createStorage({
+    use: new TestedInterface({ shared: true }),
+    delay: [0, 0],
+  });
+
+  storage.value = 'data from the previous test';
+  await storage.value;
+  expect(await storage.value).toEqual('data from the previous test');
+});
+
+it('Shared: suites are isolated by resetAllBackends (end)', async () => {
+  const storage = createStorage({
+    use: new TestedInterface({ shared: true }),
+    delay: [0, 0],
+  });
+
+  expect(await storage.value).toEqual(undefined);
+});
+
+it('Shared: deleteStorage affects all instances', async () => {
+  const storage = createStorage({
+    use: new TestedInterface({ shared: true }),
+    delay: [0, 0],
+  });
+  const storage2 = createStorage({
+    use: new TestedInterface({ shared: true }),
+    delay: [0, 0],
+  });
+
+  storage.value = 1;
+  await storage.value;
+  expect(await storage2.value).toEqual(1);
+
+  await storage2.deleteStorage();
+  await expect(storage.value).rejects.toThrow('This Storage was deleted!');
+
+  // A new instance gets a new empty storage
+  const storage3 = createStorage({
+    use: new TestedInterface({ shared: true }),
+    delay: [0, 0],
+  });
+  expect(await storage3.value).toEqual(undefined);
+  await expect(storage.value).rejects.toThrow('This Storage was deleted!');
+});
+
+it('Shared: own registry', () => {
+  const registry = new BackendRegistry();
+  const storage = createStorage({
+    use: new TestedInterface({ shared: registry }),
+    asyncMode: false,
+  });
+  const storage2 = createStorage({
+    use: new TestedInterface({ shared: registry }),
+    asyncMode: false,
+  });
+  const global = createStorage({
+    use: new TestedInterface({ shared: true }),
+    asyncMode: false,
+  });
+
+  storage.value = 1;
+  expect(storage2.value).toEqual(1);
+  expect(global.value).toEqual(undefined);
+  expect(registry.get('storage')?.storage.get('value')).toEqual(1);
+});
+
+it('Shared: assigning mock.storage', () => {
+  const registry = new BackendRegistry();
+  const mock = new TestedInterface({ shared: registry });
+  const storage = createStorage({ use: mock, asyncMode: false });
+  const storage2 = createStorage({
+    use: new TestedInterface({ shared: registry, consistency: 'eventual' }),
+    asyncMode: false,
+  });
+
+  storage.value = 1;
+  mock.storage = new Map([['other', 2]]);
+  expect(storage.value).toEqual(undefined);
+  expect(storage2.other).toEqual(2);
+  expect(mock.stats()).toMatchObject({ keys: 1 });
+});
@@ -0,0 +1,82 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { createStorage } from 'storage-facade';
+import {
+  MockInterface as TestedInterface,
+  getMockStorage,
+  getSnapshot,
+  restoreSnapshot,
+} from '../src/index';
+
+it('Snapshot: captures entries in order', () => {
+  const storage = createStorage({
+    use: new TestedInterface(),
+    name: 'settings',
+    asyncMode: false,
+  });
+
+  storage.b = { c: [40, 42] };
+  storage.a = [1, 2];
+
+  const snapshot = getSnapshot(storage);
+  expect(snapshot).toEqual({
+    name: 'settings',
+    deleted: false,
+    entries: [
+      ['b', { c: [40, 42] }],
+      ['a', [1, 2]],
+    ],
+  });
+
+  // Serializable, not linked to the storage
+  expect(structuredClone(snapshot)).toEqual(snapshot);
+  (snapshot.entries[1][1] as number[]).push(3);
+  expect(storage.a).toEqual([1, 2]);
+});
+
+it('Snapshot: restore', () => {
+  const mock = new TestedInterface();
+  const storage = createStorage({ use: mock, asyncMode: false });
+
+  storage.a = 1;
+  storage.b = 2;
+  const map = getMockStorage(storage);
+  const fixture = mock.snapshot();
+
+  storage.a = 10;
+  storage.c = 3;
+  delete storage.b;
+
+  restoreSnapshot(storage, fixture);
+  expect(storage.entries()).toEqual([
+    ['a', 1],
+    ['b', 2],
+  ]);
+  // The same Map
+  expect(map.get('a')).toEqual(1);
+
+  // The snapshot can be used again
+  storage.a = 20;
+  mock.restore(fixture);
+  expect(storage.a).toEqual(1);
+});
+
+it('Snapshot: deleted flag', async () => {
+  const mock = new TestedInterface();
+  const storage = createStorage({ use: mock, delay: [0, 0] });
+
+  storage.value = 1;
+  await storage.value;
+  const before = mock.snapshot();
+
+  await storage.deleteStorage();
+  expect(mock.snapshot()).toEqual({ name: 'storage', deleted: true, entries: [] });
+
+  mock.restore(before);
+  expect(await storage.value).toEqual(1);
+});
@@ -0,0 +1,129 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { createStorage } from 'storage-facade';
+import {
+  MockInterface as TestedInterface,
+  BackendRegistry,
+  VirtualClock,
+} from '../src/index';
+import * as size from '../src/size';
+
+it('Stats: sizes, counts and high-water marks', async () => {
+  const scheduler = new VirtualClock();
+  const mock = new TestedInterface({ scheduler });
+  const storage = createStorage({ use: mock, asyncMode: false });
+  expect(mock.stats()).toEqual({
+    keys: 0,
+    totalSize: 0,
+    perKey: [],
+    largest: [],
+    highWater: { keys: 0, totalSize: 0, keySize: 0 },
+    reads: 0,
+    writes: 0,
+    since: 0,
+  });
+
+  // UTF-16: 2 bytes per character, numbers: 8 bytes
+  storage.a = 'xx';
+  storage.b = 1;
+  storage.long = 'x'.repeat(100);
+  expect(storage.a).toEqual('xx');
+  expect(storage.a).toEqual('xx');
+  storage.b = 2;
+
+  const stats = mock.stats({ largest: 2 });
+  expect(stats.keys).toEqual(3);
+  expect(stats.totalSize).toEqual(6 + 10 + 208);
+  expect(stats.perKey).toEqual([
+    { key: 'a', size: 6, reads: 2, writes: 1 },
+    { key: 'b', size: 10, reads: 0, writes: 2 },
+    { key: 'long', size: 208, reads: 0, writes: 1 },
+  ]);
+  expect(stats.largest.map(({ key }) => key)).toEqual(['long', 'b']);
+  expect([stats.reads, stats.writes]).toEqual([2, 4]);
+
+  delete storage.long;
+  expect(mock.stats()).toMatchObject({
+    keys: 2,
+    totalSize: 16,
+    highWater: { keys: 3, totalSize: 224, keySize: 208 },
+  });
+
+  await scheduler.advanceBy(50);
+  mock.resetStats();
+  expect(mock.stats()).toMatchObject({
+    highWater: { keys: 2, totalSize: 16, keySize: 10 },
+    reads: 0,
+    writes: 0,
+    since: 50,
+  });
+});
+
+it('Stats: changes made by other instances', () => {
+  const shared = new BackendRegistry();
+  const first = new TestedInterface({ shared });
+  const second = createStorage({
+    use: new TestedInterface({ shared }),
+    asyncMode: false,
+  });
+  first.initSync({ use: first });
+
+  second.value = 'x'.repeat(10);
+  second.clear();
+  expect(first.stats()).toMatchObject({
+    keys: 0,
+    writes: 0,
+    highWater: { keys: 1, totalSize: 10 + 20 },
+  });
+});
+
+it('Stats: only the changed key is measured', () => {
+  const mock = new TestedInterface();
+  const storage = createStorage({ use: mock, asyncMode: false });
+  for (let i = 0; i < 100; i += 1) storage[`key${i}`] = i;
+  const entrySize = jest.spyOn(size, 'entrySize');
+  try {
+    storage.key0 = 'x'.repeat(100);
+    delete storage.key1;
+    expect(entrySize).toHaveBeenCalledTimes(1);
+    expect(mock.stats().highWater).toEqual({
+      keys: 100,
+      // Keys: 10 * 8 + 90 * 10 bytes, numbers: 100 * 8, then 'key0' grows to 208
+      totalSize: 1780 - 16 + 208,
+      keySize: 208,
+    });
+  } finally {
+    entrySize.mockRestore();
+  }
+});
+
+it('Stats: eventual consistency', async () => {
+  const scheduler = new VirtualClock();
+  const shared = new BackendRegistry();
+  const options = { shared, scheduler, consistency: 'eventual' as const };
+  const first = new TestedInterface(options);
+  const second = new TestedInterface(options);
+  first.initSync({ use: first });
+  second.initSync({ use: second });
+
+  // The later write reaches the backend first
+  first.replicationLag = [20, 20];
+  second.replicationLag = [10, 10];
+  first.setItemSync('value', 'x'.repeat(50));
+  second.setItemSync('value', 'x');
+  await scheduler.advanceBy(20);
+  expect(first.getItemSync('value')).toEqual('x'.repeat(50));
+  // A peak that is gone before `stats()`
+  first.setItemSync('other', 1);
+  first.removeItemSync('other');
+  expect(first.stats()).toMatchObject({
+    keys: 1,
+    totalSize: 110,
+    highWater: { keys: 2, totalSize: 110 + 18, keySize: 110 },
+  });
+});
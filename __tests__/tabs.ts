@@ -0,0 +1,115 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { VirtualClock, type StorageChange } from '../src/index';
+import { createTabs } from '../src/tabs';
+
+it('Tabs: shared data and events', async () => {
+  const harness = createTabs({ tabs: 3, name: 'app' });
+  const { tabs } = harness;
+  const [first, second, third] = tabs;
+  const received: Array<[number, StorageChange]> = [];
+  tabs.forEach((tab) => {
+    tab.onChange((change) => received.push([tab.id, change]));
+  });
+
+  // Async tabs see each other's changes once they are initialized
+  await harness.whenIdle();
+  first.storage.value = 1;
+  await harness.whenIdle();
+  expect(await second.storage.value).toEqual(1);
+  expect(await third.storage.value).toEqual(1);
+  // In the order the tabs were initialized
+  received.sort(([a], [b]) => a - b);
+  expect(received.map(([id, change]) => [id, change.key, change.newValue])).toEqual([
+    [1, 'value', 1],
+    [2, 'value', 1],
+  ]);
+});
+
+it('Tabs: harnesses are isolated', async () => {
+  const one = createTabs({ tabs: 1, asyncMode: false });
+  const two = createTabs({ tabs: 1, asyncMode: false });
+
+  one.get(0).storage.value = 1;
+  expect(two.get(0).storage.value).toEqual(undefined);
+  expect(() => one.get(1)).toThrow('there is no tab 1');
+});
+
+it('Tabs: close and reopen', async () => {
+  const harness = createTabs({ tabs: 2, asyncMode: false });
+  const [writer, reader] = harness.tabs;
+  const listener = jest.fn();
+  reader.onChange(listener);
+
+  reader.close();
+  expect(reader.closed).toEqual(true);
+  expect(harness.active()).toEqual([writer]);
+  writer.storage.value = 1;
+  expect(listener).not.toHaveBeenCalled();
+  expect(() => reader.storage.value).toThrow('This Storage was closed!');
+
+  reader.reopen();
+  expect(reader.closed).toEqual(false);
+  expect(reader.storage.value).toEqual(1);
+  writer.storage.value = 2;
+  expect(listener).toHaveBeenCalledTimes(1);
+
+  harness.closeAll();
+  expect(harness.active()).toEqual([]);
+});
+
+it('Tabs: pending operations of a closed tab reject', async () => {
+  const clock = new VirtualClock();
+  const { tabs } = createTabs({ tabs: 2, scheduler: clock, delay: [10, 10] });
+  const [writer, reader] = tabs;
+  await clock.runAll();
+
+  writer.storage.value = 1;
+  const write = writer.storage.value;
+  writer.close();
+  const rejected = expect(write).rejects.toThrow('This Storage was closed!');
+  await clock.runAll();
+  await rejected;
+  const read = reader.storage.value;
+  await clock.runAll();
+  expect(await read).toEqual(undefined);
+});
+
+it('Tabs: per-tab latency and conflicting writes', async () => {
+  const clock = new VirtualClock();
+  const { tabs } = createTabs({
+    tabs: [{ delay: [50, 50] }, { delay: [10, 10] }],
+    scheduler: clock,
+  });
+  const [slow, fast] = tabs;
+  await clock.runAll();
+
+  const done: number[] = [];
+  slow.storage.value = 'slow';
+  fast.storage.value = 'fast';
+  void (slow.storage.value as Promise<unknown>).then(() => done.push(slow.id));
+  void (fast.storage.value as Promise<unknown>).then(() => done.push(fast.id));
+  await clock.runAll();
+
+  expect(done).toEqual([fast.id, slow.id]);
+  // The last write wins
+  const read = fast.storage.value;
+  await clock.runAll();
+  expect(await read).toEqual('slow');
+});
+
+it('Tabs: seeds and whenIdle()', async () => {
+  const harness = createTabs({ tabs: 2, seed: 10, delay: [1, 5] });
+  expect(harness.tabs.map((tab) => tab.mock.seed)).toEqual([10, 11]);
+  expect(harness.open({ seed: 1 }).mock.seed).toEqual(1);
+
+  harness.get(0).storage.value = 1;
+  harness.get(1).storage.other = 2;
+  await harness.whenIdle();
+  expect([...harness.get(2).mock.storage.keys()].sort()).toEqual(['other', 'value']);
+});
@@ -0,0 +1,136 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { createStorage } from 'storage-facade';
+import {
+  MockInterface as TestedInterface,
+  DataCloneError,
+  findValueIssues,
+} from '../src/index';
+
+class Point {
+  constructor(public x: number, public y: number) {}
+}
+
+const caught = (fn: () => unknown): unknown => {
+  try {
+    fn();
+  } catch (e) {
+    return e;
+  }
+  throw Error('Nothing was thrown');
+};
+
+it('Validation: structured clone', () => {
+  const circular: Record<string, unknown> = { ok: new Map([['a', new Set([1])]]) };
+  circular.self = circular;
+  expect(findValueIssues(circular, 'structuredClone')).toEqual([]);
+
+  expect(
+    findValueIssues(
+      { fn: () => {}, list: [1, Symbol('s')], point: new Point(1, 2) },
+      'structuredClone',
+      'user'
+    )
+  ).toEqual([
+    { path: 'user.fn', problem: "functions can't be cloned" },
+    { path: 'user.list[1]', problem: "symbols can't be cloned" },
+    { path: 'user.point', problem: 'an instance of Point loses its prototype' },
+  ]);
+  expect(
+    findValueIssues(new Map([['a b', { p: Promise.resolve() }]]), 'structuredClone')
+  ).toEqual([{ path: 'value.get("a b").p', problem: "Promise can't be cloned" }]);
+});
+
+it('Validation: JSON', () => {
+  expect(findValueIssues({ a: [1, 'b', null], b: { c: true } }, 'json')).toEqual([]);
+
+  const circular: Record<string, unknown> = {};
+  circular.self = circular;
+  expect(
+    findValueIssues(
+      {
+        list: [undefined, () => {}, NaN],
+        skipped: undefined,
+        fn: () => {},
+        at: new Date(0),
+        map: new Map([['a', 1]]),
+        zero: -0,
+        big: BigInt(1),
+        'a-b': circular,
+      },
+      'json'
+    )
+  ).toEqual([
+    { path: 'value.list[0]', problem: 'undefined becomes null' },
+    { path: 'value.list[1]', problem: 'a function becomes null' },
+    { path: 'value.list[2]', problem: 'NaN becomes null' },
+    { path: 'value.fn', problem: 'a function is dropped' },
+    { path: 'value.at', problem: 'a Date becomes a string' },
+    { path: 'value.map', problem: 'a Map becomes {}' },
+    { path: 'value.zero', problem: '-0 becomes 0' },
+    { path: 'value.big', problem: "BigInt can't be serialized to JSON" },
+    { path: 'value["a-b"].self', problem: 'a circular reference' },
+  ]);
+});
+
+it('Validation: strict mode throws with the report', () => {
+  const storage = createStorage({
+    use: new TestedInterface({ profile: 'localStorage', strict: true }),
+  });
+  storage.valid = { a: [1, null] };
+  const error = caught(() => {
+    storage.value = { list: [1, undefined] };
+  });
+  expect(error).toBeInstanceOf(DataCloneError);
+  expect((error as Error).message).toEqual(
+    [
+      "The value of 'value' would not survive 'localStorage' (json):",
+      '  value.list[1]: undefined becomes null',
+    ].join('\n')
+  );
+  expect((error as DataCloneError).issues).toEqual([
+    { path: 'value.list[1]', problem: 'undefined becomes null' },
+  ]);
+  expect(storage.value).toEqual(undefined);
+
+  // Without the strict mode the value is stored as JSON would store it
+  const loose = createStorage({ use: new TestedInterface({ profile: 'localStorage' }) });
+  loose.value = { list: [1, undefined] };
+  expect(loose.value).toEqual({ list: [1, null] });
+});
+
+it('Validation: strict mode rejects async writes', async () => {
+  const mock = new TestedInterface({ strict: true });
+  mock.delay = [0, 0];
+  const storage = createStorage({ use: mock });
+  storage.point = new Point(1, 2);
+  // The facade returns the promise of the write
+  await expect(storage.point).rejects.toMatchObject({
+    name: 'DataCloneError',
+    issues: [{ path: 'point', problem: 'an instance of Point loses its prototype' }],
+  });
+  expect(await storage.size()).toEqual(0);
+});
+
+it('Validation: async values are cloned at call time', async () => {
+  const mock = new TestedInterface();
+  mock.delay = [5, 5];
+  await mock.initAsync({ use: mock });
+
+  const value = { count: 1 };
+  const written = mock.setItemAsync('value', value);
+  value.count = 2;
+  await written;
+  expect(await mock.getItemAsync('value')).toEqual({ count: 1 });
+
+  // Rejected by the method, not thrown
+  const failed = mock.setItemAsync('value', { fn: () => {} });
+  expect(failed).toBeInstanceOf(Promise);
+  await expect(failed).rejects.toBeInstanceOf(DataCloneError);
+  expect(mock.journal.byMethod('setItem').map((e) => e.status)).toEqual(['ok', 'error']);
+});
@@ -14,7 +14,7 @@ export default async function () {
   // Main
   builds.push({
     plugins: [typescript(), nodeResolve()],
-    input: ['src/index.ts'],
+    input: ['src/index.ts', 'src/tabs.ts', 'src/node.ts', 'src/matchers.ts'],
     output: [
       {
         dir: 'build/',
@@ -49,8 +49,13 @@ export default async function () {
 
   // types
   builds.push({
-    input: "./build/.ts-tmp/src/index.d.ts",
-    output: [{ file: `build/${name}.d.ts`, format: "es" }],
+    input: {
+      [name]: "./build/.ts-tmp/src/index.d.ts",
+      tabs: "./build/.ts-tmp/src/tabs.d.ts",
+      node: "./build/.ts-tmp/src/node.d.ts",
+      matchers: "./build/.ts-tmp/src/matchers.d.ts",
+    },
+    output: [{ dir: 'build/', entryFileNames: '[name].d.ts', format: "es" }],
     plugins: [
       dts(), 
       {
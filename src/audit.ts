@@ -0,0 +1,75 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { type ValueIssue, type ValueTarget, findValueIssues } from './validation';
+
+export interface AuditedWrite {
+  key: string;
+  method: 'setItemSync' | 'setItemAsync';
+  storageName: string;
+}
+
+// A part of a written value that a backend would not keep as is
+export interface AuditWarning extends ValueIssue, AuditedWrite {
+  target: ValueTarget;
+}
+
+const targets: ValueTarget[] = ['json', 'structuredClone'];
+
+// Written values compared against what JSON and structured clone
+// would store, whatever the profile of the storage is
+export class FidelityAudit {
+  private readonly byKey = new Map<string, AuditWarning[]>();
+
+  // Returns the warnings for the value, a warning the key already has is not repeated
+  check(value: unknown, write: AuditedWrite): AuditWarning[] {
+    const found = targets.flatMap((target) =>
+      findValueIssues(value, target, write.key).map((issue) => ({
+        ...write,
+        ...issue,
+        target,
+      }))
+    );
+    const known = this.byKey.get(write.key) ?? [];
+    const added = found.filter(
+      (w) =>
+        !known.some(
+          (k) => k.target === w.target && k.path === w.path && k.problem === w.problem
+        )
+    );
+    if (added.length > 0) this.byKey.set(write.key, [...known, ...added]);
+    return found;
+  }
+
+  // All warnings or the warnings of the key
+  warnings(key?: string): AuditWarning[] {
+    if (key !== undefined) return [...(this.byKey.get(key) ?? [])];
+    return [...this.byKey.values()].flat();
+  }
+
+  // Keys with warnings, in the order they were found
+  keys(): string[] {
+    return [...this.byKey.keys()];
+  }
+
+  /**
+   * 'user':
+   *   user.at: a Date becomes a string (json)
+   */
+  report(): string {
+    return [...this.byKey]
+      .map(([key, warnings]) => {
+        const lines = warnings.map((w) => `  ${w.path}: ${w.problem} (${w.target})`);
+        return [`'${key}':`, ...lines].join('\n');
+      })
+      .join('\n');
+  }
+
+  clear(): void {
+    this.byKey.clear();
+  }
+}
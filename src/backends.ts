@@ -0,0 +1,139 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+/* eslint-disable max-classes-per-file */
+
+import { type StorageChange, type ChangeObserver, storageChange } from './events';
+import { type PersistenceAdapter } from './persistence';
+
+export type Change =
+  | { type: 'set'; key: string; value: unknown }
+  | { type: 'remove'; key: string }
+  | { type: 'clear' };
+
+// `null` if every key changes
+export const changedKey = (change: Change): string | null =>
+  change.type === 'clear' ? null : change.key;
+
+export const applyChange = (storage: Map<string, unknown>, change: Change): void => {
+  if (change.type === 'set') storage.set(change.key, change.value);
+  if (change.type === 'remove') storage.delete(change.key);
+  if (change.type === 'clear') storage.clear();
+};
+
+// `undefined` if the change does not change anything
+export const describeChange = (
+  storage: Map<string, unknown>,
+  change: Change,
+  storageName: string
+): StorageChange | undefined => {
+  if (change.type === 'clear') {
+    return storage.size === 0 ? undefined : storageChange('clear', storageName);
+  }
+  if (!storage.has(change.key)) {
+    if (change.type === 'remove') return undefined;
+    return storageChange('set', storageName, change.key, null, change.value);
+  }
+  const oldValue = storage.get(change.key);
+  if (change.type === 'remove') {
+    return storageChange('remove', storageName, change.key, oldValue);
+  }
+  if (Object.is(oldValue, change.value)) return undefined;
+  return storageChange('set', storageName, change.key, oldValue, change.value);
+};
+
+// The data behind one or more `MockInterface` instances
+export class Backend {
+  readonly name: string;
+
+  storage = new Map<string, unknown>();
+
+  // Local views of instances with 'eventual' consistency
+  replicas = new Set<Map<string, unknown>>();
+
+  deleted = false;
+
+  // Instances that use this backend
+  observers = new Set<ChangeObserver>();
+
+  // Set by the first instance that opens the backend with persistence
+  persistence?: PersistenceAdapter;
+
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  // Brings every replica to the state of `storage`
+  syncReplicas(): void {
+    this.replicas.forEach((replica) => {
+      replica.clear();
+      this.storage.forEach((value, key) => replica.set(key, value));
+    });
+  }
+
+  notify(change: StorageChange, source: object): void {
+    this.observers.forEach((observer) => {
+      observer(change, source);
+    });
+  }
+
+  // Loads saved data, does nothing if the backend already has persistence.
+  // If `load` throws, the backend is left without it
+  attach(persistence: PersistenceAdapter): void {
+    if (this.persistence !== undefined) return;
+    const entries = persistence.load(this.name) ?? [];
+    this.persistence = persistence;
+    this.storage.clear();
+    entries.forEach(([key, value]) => this.storage.set(key, value));
+    this.syncReplicas();
+  }
+
+  persist(): void {
+    this.persistence?.save(this.name, Array.from(this.storage));
+  }
+
+  destroy(): void {
+    this.storage.clear();
+    this.syncReplicas();
+    this.deleted = true;
+    this.persistence?.remove(this.name);
+  }
+}
+
+// Instances that use the same registry and storage name share one backend
+export class BackendRegistry {
+  private readonly backends = new Map<string, Backend>();
+
+  // A deleted backend is replaced with a new empty one,
+  // instances that still use it keep seeing it as deleted
+  open(name: string): Backend {
+    const existing = this.backends.get(name);
+    if (existing !== undefined && !existing.deleted) return existing;
+    const backend = new Backend(name);
+    this.backends.set(name, backend);
+    return backend;
+  }
+
+  get(name: string): Backend | undefined {
+    return this.backends.get(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.backends.keys());
+  }
+
+  reset(): void {
+    this.backends.clear();
+  }
+}
+
+export const sharedBackends = new BackendRegistry();
+
+// Call it before each test to isolate suites that use `shared: true`
+export const resetAllBackends = (): void => {
+  sharedBackends.reset();
+};
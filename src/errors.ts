@@ -0,0 +1,41 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+/* eslint-disable max-classes-per-file */
+
+import { type ValueIssue } from './validation';
+
+// `DOMException`s like the ones real interfaces throw: `name` and `code`
+// are stable, `instanceof DOMException` and `instanceof Error` are true
+
+// The storage is deleted or closed
+export class InvalidStateError extends DOMException {
+  constructor(message: string) {
+    super(message, 'InvalidStateError');
+  }
+}
+
+// The value can't be stored (structured clone or JSON failed),
+// `issues` are set when the value was refused by the strict mode
+export class DataCloneError extends DOMException {
+  constructor(message: string, readonly issues: ValueIssue[] = []) {
+    super(message, 'DataCloneError');
+  }
+}
+
+export class QuotaExceededError extends DOMException {
+  constructor(message: string) {
+    super(message, 'QuotaExceededError');
+  }
+}
+
+// Not a standard name, `code` is 0
+export class NotInitializedError extends DOMException {
+  constructor(message: string) {
+    super(message, 'NotInitializedError');
+  }
+}
@@ -0,0 +1,80 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { safeClone } from './journal';
+
+export type StorageChangeType = 'set' | 'remove' | 'clear' | 'deleteStorage';
+
+// Like the browser `storage` event: `key`, `oldValue` and `newValue`
+// are `null` for 'clear' and 'deleteStorage'
+export interface StorageChange {
+  type: StorageChangeType;
+  key: string | null;
+  oldValue: unknown;
+  newValue: unknown;
+  storageName: string;
+}
+
+export type ChangeListener = (change: StorageChange) => void;
+
+// Gets what a change listener threw, the writer and other listeners are not affected
+export type ListenerErrorHandler = (error: unknown, change: StorageChange) => void;
+
+// Like browsers do with errors of event listeners
+export const logListenerError: ListenerErrorHandler = (error) => {
+  // eslint-disable-next-line no-console
+  console.error(error);
+};
+
+// Called for every change of a backend with the instance that made it
+export type ChangeObserver = (change: StorageChange, source: object) => void;
+
+// Values are kept by reference, stored values are not changed in place
+export const storageChange = (
+  type: StorageChangeType,
+  storageName: string,
+  key: string | null = null,
+  oldValue: unknown = null,
+  newValue: unknown = null
+): StorageChange => ({
+  type,
+  key,
+  oldValue,
+  newValue,
+  storageName,
+});
+
+// A copy for listeners, so that they can't change what others receive
+export const cloneChange = (change: StorageChange): StorageChange => ({
+  ...change,
+  oldValue: safeClone(change.oldValue),
+  newValue: safeClone(change.newValue),
+});
+
+// `StorageEvent` values are strings
+const eventValue = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+// Does nothing outside of a browser-like environment (e.g. jsdom)
+export const dispatchStorageEvent = (change: StorageChange): void => {
+  if (typeof window === 'undefined' || typeof StorageEvent === 'undefined') return;
+  window.dispatchEvent(
+    new StorageEvent('storage', {
+      key: change.key,
+      oldValue: eventValue(change.oldValue),
+      newValue: eventValue(change.newValue),
+      url: window.location.href,
+    })
+  );
+};
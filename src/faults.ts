@@ -0,0 +1,98 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { type MethodName, type OperationName, operationOf } from './methods';
+import { type Random } from './random';
+
+export interface FaultCall {
+  method: MethodName;
+  key?: string;
+}
+
+export interface FaultRule {
+  // 'setItem' matches both 'setItemSync' and 'setItemAsync',
+  // all methods if not set
+  method?: MethodName | OperationName | Array<MethodName | OperationName>;
+  // Only calls with a key ('getItem', 'setItem', 'removeItem') can match
+  key?: string | RegExp;
+  // From 0 to 1, default: 1
+  probability?: number;
+  // Fail the Nth matching call (counting from 1)
+  nth?: number;
+  // Fail the next `times` matching calls (starting from `nth` if set),
+  // then the rule is removed. Default: 1 with `nth`, unlimited without
+  times?: number;
+  // What the async method rejects with and the sync method throws
+  error?: unknown;
+}
+
+interface ActiveRule {
+  rule: FaultRule;
+  calls: number;
+  failed: number;
+}
+
+export const faultError = (call: FaultCall): Error => {
+  const key = call.key === undefined ? '' : ` (key: '${call.key}')`;
+  return Error(`MockInterface: injected fault in '${call.method}'${key}`);
+};
+
+const methodMatches = (rule: FaultRule, method: MethodName): boolean => {
+  if (rule.method === undefined) return true;
+  const methods = Array.isArray(rule.method) ? rule.method : [rule.method];
+  return methods.some((m) => m === method || m === operationOf(method));
+};
+
+const keyMatches = (rule: FaultRule, key: string | undefined): boolean => {
+  if (rule.key === undefined) return true;
+  if (key === undefined) return false;
+  if (typeof rule.key === 'string') return rule.key === key;
+  // `test` of a RegExp with the 'g' or 'y' flag starts at `lastIndex`
+  const pattern = rule.key;
+  pattern.lastIndex = 0;
+  return pattern.test(key);
+};
+
+export class FaultInjector {
+  private rules: ActiveRule[] = [];
+
+  add(rule: FaultRule): () => void {
+    const active = { rule, calls: 0, failed: 0 };
+    this.rules.push(active);
+    return () => {
+      this.rules = this.rules.filter((r) => r !== active);
+    };
+  }
+
+  clear(): void {
+    this.rules = [];
+  }
+
+  size(): number {
+    return this.rules.length;
+  }
+
+  // Returns the error to inject, `undefined` if the call should succeed
+  check(call: FaultCall, random: Random): { error: unknown } | undefined {
+    let result: { error: unknown } | undefined;
+    this.rules.forEach((state) => {
+      const { rule } = state;
+      if (!methodMatches(rule, call.method) || !keyMatches(rule, call.key)) return;
+      state.calls += 1;
+      if (result !== undefined) return;
+      if (rule.nth !== undefined && state.calls < rule.nth) return;
+      if (rule.probability !== undefined && random() >= rule.probability) return;
+      state.failed += 1;
+      result = { error: rule.error ?? faultError(call) };
+    });
+    this.rules = this.rules.filter(({ rule, failed }) => {
+      const times = rule.times ?? (rule.nth === undefined ? Infinity : 1);
+      return failed < times;
+    });
+    return result;
+  }
+}
@@ -0,0 +1,353 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+/* eslint-disable @typescript-eslint/no-use-before-define */
+
+import { type JournalEntry, type JournalStatus } from './journal';
+import { type MethodName, type OperationName } from './methods';
+import { type ProfileName } from './profiles';
+import { tagOf } from './validation';
+
+// JSON with the values JSON loses wrapped as `{ $type, value }`
+export type EncodedValue =
+  | null
+  | boolean
+  | number
+  | string
+  | EncodedValue[]
+  | { [key: string]: EncodedValue };
+
+export interface FixtureStep {
+  method: MethodName;
+  args: EncodedValue[];
+  // Relative to the first step
+  startedAt: number;
+  // Not set if the operation was pending
+  duration?: number;
+  status: JournalStatus;
+  // Only for 'getItem', 'size' and 'key'
+  result?: EncodedValue;
+  error?: { name: string; message: string };
+}
+
+// Plain JSON: can be saved as a file and attached to a bug report
+export interface SessionFixture {
+  version: 1;
+  profile: ProfileName;
+  // The seed of the recorded run
+  seed: number;
+  steps: FixtureStep[];
+}
+
+export interface CompareOptions {
+  // Compare `startedAt` and `duration` too, default: false
+  timing?: boolean;
+}
+
+// A difference between two sessions, `index` is the step
+export interface StepMismatch {
+  index: number;
+  field:
+    | 'step'
+    | 'method'
+    | 'args'
+    | 'status'
+    | 'result'
+    | 'error'
+    | 'startedAt'
+    | 'duration';
+  expected: unknown;
+  actual: unknown;
+}
+
+const readOperations: OperationName[] = ['getItem', 'size', 'key'];
+
+const typedArrays: Record<string, { from: (list: number[]) => ArrayBufferView }> = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+};
+
+const tagged = (type: string, value: EncodedValue): EncodedValue => ({
+  $type: type,
+  value,
+});
+
+const encodeNumber = (value: number): EncodedValue => {
+  if (Object.is(value, -0)) return tagged('number', '-0');
+  return Number.isFinite(value) ? value : tagged('number', String(value));
+};
+
+// Keys and indexes in the encoded value, from the root
+type Path = Array<string | number>;
+
+// Objects on the way from the root, a circular reference is encoded
+// as `{ $type: 'ref', value: path }` to one of them
+type Ancestors = Map<object, Path>;
+
+const encodeContents = (
+  value: object,
+  path: Path,
+  ancestors: Ancestors
+): EncodedValue => {
+  const tag = tagOf(value);
+  const encode = (item: unknown, ...steps: Path): EncodedValue =>
+    encodeAt(item, [...path, ...steps], ancestors);
+  if (Array.isArray(value)) return value.map((item, i) => encode(item, i));
+  if (tag === 'Date') return tagged('Date', encodeNumber((value as Date).getTime()));
+  if (tag === 'Map') {
+    const entries = [...(value as Map<unknown, unknown>)];
+    return tagged(
+      'Map',
+      entries.map(([k, v], i) => [encode(k, 'value', i, 0), encode(v, 'value', i, 1)])
+    );
+  }
+  if (tag === 'Set') {
+    return tagged(
+      'Set',
+      [...(value as Set<unknown>)].map((item, i) => encode(item, 'value', i))
+    );
+  }
+  if (tag === 'RegExp') {
+    const { source, flags } = value as RegExp;
+    return tagged('RegExp', { source, flags });
+  }
+  if (tag === 'Error') {
+    const { name, message } = value as Error;
+    return tagged('Error', { name, message });
+  }
+  if (tag === 'ArrayBuffer') {
+    return tagged('ArrayBuffer', [...new Uint8Array(value as ArrayBuffer)]);
+  }
+  if (tag in typedArrays) return tagged(tag, [...(value as Uint8Array)]);
+  const entries = Object.entries(value);
+  // A stored object that looks like an encoded value
+  const wrapped = entries.some(([k]) => k === '$type');
+  const object = Object.fromEntries(
+    entries.map(([k, v]) => [k, wrapped ? encode(v, 'value', k) : encode(v, k)])
+  ) as Record<string, EncodedValue>;
+  return wrapped ? tagged('Object', object) : object;
+};
+
+const encodeObject = (value: object, path: Path, ancestors: Ancestors): EncodedValue => {
+  const ancestor = ancestors.get(value);
+  if (ancestor !== undefined) return tagged('ref', ancestor);
+  ancestors.set(value, path);
+  const encoded = encodeContents(value, path, ancestors);
+  // Only the current branch: a repeated, but not circular, object is encoded again
+  ancestors.delete(value);
+  return encoded;
+};
+
+const encodeAt = (value: unknown, path: Path, ancestors: Ancestors): EncodedValue => {
+  switch (typeof value) {
+    case 'undefined':
+      return tagged('undefined', null);
+    case 'number':
+      return encodeNumber(value);
+    case 'bigint':
+      return tagged('bigint', value.toString());
+    case 'string':
+    case 'boolean':
+      return value;
+    case 'object':
+      return value === null ? null : encodeObject(value, path, ancestors);
+    default:
+      return tagged('unsupported', String(value));
+  }
+};
+
+// `decodeValue(encodeValue(value))` gives what structured clone would,
+// functions and symbols (not storable anyway) become strings.
+// Repeated objects that are not circular are decoded as copies
+export const encodeValue = (value: unknown): EncodedValue =>
+  encodeAt(value, [], new Map());
+
+// Decoded objects by `JSON.stringify(path)`, set before their contents
+// are decoded, so that 'ref' can point to an object being decoded
+type Decoded = Map<string, unknown>;
+
+const decodeInto = <T>(target: T, path: Path, decoded: Decoded, fill: () => void): T => {
+  decoded.set(JSON.stringify(path), target);
+  fill();
+  return target;
+};
+
+const decodeProperties = (
+  data: Record<string, EncodedValue>,
+  path: Path,
+  decoded: Decoded
+): Record<string, unknown> => {
+  const object: Record<string, unknown> = {};
+  return decodeInto(object, path, decoded, () => {
+    Object.entries(data).forEach(([k, v]) => {
+      object[k] = decodeAt(v, [...path, k], decoded);
+    });
+  });
+};
+
+const decodeTagged = (
+  type: string,
+  data: EncodedValue,
+  path: Path,
+  decoded: Decoded
+): unknown => {
+  const list = data as EncodedValue[];
+  const decode = (item: EncodedValue, ...steps: Path): unknown =>
+    decodeAt(item, [...path, ...steps], decoded);
+  switch (type) {
+    case 'undefined':
+      return undefined;
+    case 'number':
+      return Number(data);
+    case 'bigint':
+      return BigInt(data as string);
+    case 'Date':
+      return new Date(decode(data) as number);
+    case 'Map': {
+      const map = new Map<unknown, unknown>();
+      return decodeInto(map, path, decoded, () => {
+        (list as EncodedValue[][]).forEach(([k, v], i) => {
+          map.set(decode(k, 'value', i, 0), decode(v, 'value', i, 1));
+        });
+      });
+    }
+    case 'Set': {
+      const set = new Set<unknown>();
+      return decodeInto(set, path, decoded, () => {
+        list.forEach((item, i) => set.add(decode(item, 'value', i)));
+      });
+    }
+    case 'RegExp': {
+      const { source, flags } = data as { source: string; flags: string };
+      return new RegExp(source, flags);
+    }
+    case 'Error': {
+      const { name, message } = data as { name: string; message: string };
+      return Object.assign(Error(message), { name });
+    }
+    case 'ArrayBuffer':
+      return new Uint8Array(list as number[]).buffer;
+    case 'Object': {
+      // The properties are under 'value' in the encoded value
+      const object: Record<string, unknown> = {};
+      return decodeInto(object, path, decoded, () => {
+        Object.entries(data as Record<string, EncodedValue>).forEach(([k, v]) => {
+          object[k] = decode(v, 'value', k);
+        });
+      });
+    }
+    case 'ref': {
+      const key = JSON.stringify(data);
+      if (!decoded.has(key)) throw Error(`decodeValue: unknown reference ${key}!`);
+      return decoded.get(key);
+    }
+    case 'unsupported':
+      return data;
+    default:
+      if (type in typedArrays) return typedArrays[type].from(list as number[]);
+      throw Error(`decodeValue: unknown type '${type}'!`);
+  }
+};
+
+const decodeAt = (value: EncodedValue, path: Path, decoded: Decoded): unknown => {
+  if (Array.isArray(value)) {
+    const list: unknown[] = [];
+    return decodeInto(list, path, decoded, () => {
+      value.forEach((item, i) => list.push(decodeAt(item, [...path, i], decoded)));
+    });
+  }
+  if (typeof value !== 'object' || value === null) return value;
+  if (!('$type' in value)) return decodeProperties(value, path, decoded);
+  const { $type: type, value: data } = value as { $type: string; value: EncodedValue };
+  return decodeTagged(type, data, path, decoded);
+};
+
+export const decodeValue = (value: EncodedValue): unknown =>
+  decodeAt(value, [], new Map());
+
+const encodeError = (error: unknown): { name: string; message: string } => {
+  if (typeof error === 'object' && error !== null && 'message' in error) {
+    const { name, message } = error as Error;
+    return { name: String(name), message: String(message) };
+  }
+  return { name: 'Error', message: String(error) };
+};
+
+// Journal entries as fixture steps, in call order
+export const createFixture = (
+  entries: JournalEntry[],
+  setup: { profile: ProfileName; seed: number }
+): SessionFixture => {
+  const start = entries[0]?.startedAt ?? 0;
+  const steps = entries.map((entry) => {
+    const step: FixtureStep = {
+      method: entry.method,
+      args: entry.args.map(encodeValue),
+      startedAt: entry.startedAt - start,
+      status: entry.status,
+    };
+    if (entry.duration !== undefined) step.duration = entry.duration;
+    if (entry.status === 'ok' && readOperations.includes(entry.operation)) {
+      step.result = encodeValue(entry.result);
+    }
+    if (entry.status === 'error') step.error = encodeError(entry.error);
+    return step;
+  });
+  return { version: 1, profile: setup.profile, seed: setup.seed, steps };
+};
+
+const same = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// Differences in call order, an empty array if the sessions match
+export const compareFixtures = (
+  expected: SessionFixture,
+  actual: SessionFixture,
+  options: CompareOptions = {}
+): StepMismatch[] => {
+  const fields: Array<StepMismatch['field'] & keyof FixtureStep> = [
+    'method',
+    'args',
+    'status',
+    'result',
+    'error',
+  ];
+  if (options.timing === true) fields.push('startedAt', 'duration');
+  const length = Math.max(expected.steps.length, actual.steps.length);
+  const mismatches: StepMismatch[] = [];
+  for (let index = 0; index < length; index += 1) {
+    const e = expected.steps[index];
+    const a = actual.steps[index];
+    if (e === undefined || a === undefined) {
+      mismatches.push({ index, field: 'step', expected: e, actual: a });
+    } else {
+      fields.forEach((field) => {
+        if (!same(e[field], a[field])) {
+          mismatches.push({ index, field, expected: e[field], actual: a[field] });
+        }
+      });
+    }
+  }
+  return mismatches;
+};
+
+// One mismatch per line
+export const formatMismatches = (mismatches: StepMismatch[]): string =>
+  mismatches
+    .map(({ index, field, expected, actual }) => {
+      const print = (value: unknown): string => JSON.stringify(value) ?? 'undefined';
+      return `  step ${index} ${field}: expected ${print(expected)}, got ${print(
+        actual
+      )}`;
+    })
+    .join('\n');
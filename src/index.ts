@@ -18,19 +18,264 @@ import {
   defaultStorageName,
   Ok,
 } from 'storage-facade';
+import { type Random, createRandom, randomSeed } from './random';
+import { type Scheduler, realScheduler, VirtualClock, settlePromises } from './scheduler';
+import {
+  type AsyncMethodName,
+  type SyncMethodName,
+  type MethodName,
+  type OperationName,
+  isAsyncMethod,
+  isMethodName,
+  operationNames,
+} from './methods';
+import { type FaultRule, type FaultCall, FaultInjector, faultError } from './faults';
+import {
+  type JournalEntry,
+  type JournalStatus,
+  type JournalOptions,
+  Journal,
+  safeClone,
+} from './journal';
+import {
+  type Change,
+  Backend,
+  BackendRegistry,
+  sharedBackends,
+  resetAllBackends,
+  applyChange,
+  changedKey,
+  describeChange,
+} from './backends';
+import { type MockSnapshot, snapshotBackend, restoreBackend } from './snapshot';
+import { type Quota, checkQuota, quotaExceededError } from './quota';
+import { estimateSize, entrySize } from './size';
+import {
+  type ProfileName,
+  type BackendProfile,
+  profiles,
+  jsonRoundTrip,
+  cloneValue,
+} from './profiles';
+import { type KeyOrder, orderKeys } from './keyOrder';
+import { type Serialization, type Turn, OperationQueue } from './queue';
+import { type ManualOperation, ManualControl, manualRejection } from './manual';
+import { type PendingOperation, PendingOperations } from './pending';
+import { type ViewSource, MockStorageView } from './view';
+import {
+  InvalidStateError,
+  DataCloneError,
+  QuotaExceededError,
+  NotInitializedError,
+} from './errors';
+import {
+  type ValueTarget,
+  type ValueIssue,
+  findValueIssues,
+  formatIssues,
+} from './validation';
+import { type AuditedWrite, type AuditWarning, FidelityAudit } from './audit';
+import {
+  type KeyStats,
+  type HighWaterMarks,
+  type StorageStats,
+  type StatsOptions,
+  UsageTracker,
+} from './stats';
+import {
+  type EncodedValue,
+  type FixtureStep,
+  type SessionFixture,
+  type CompareOptions,
+  type StepMismatch,
+  encodeValue,
+  decodeValue,
+  createFixture,
+  compareFixtures,
+  formatMismatches,
+} from './fixture';
+import {
+  type LifecycleState,
+  type StoredLifecycleState,
+  afterInit,
+  lifecycleError,
+  initError,
+  isOpen,
+} from './lifecycle';
+import {
+  type PersistenceAdapter,
+  type PersistedEntries,
+  MemoryPersistence,
+} from './persistence';
+import {
+  type StorageChange,
+  type StorageChangeType,
+  type ChangeListener,
+  type ChangeObserver,
+  type ListenerErrorHandler,
+  storageChange,
+  cloneChange,
+  logListenerError,
+  dispatchStorageEvent,
+} from './events';
 
-export const defaultDelay = [10, 100];
+export { type Random, createRandom, randomSeed };
+export { type Scheduler, realScheduler, VirtualClock, settlePromises };
+export { type AsyncMethodName, type SyncMethodName, type MethodName, type OperationName };
+export { type FaultRule, type FaultCall, FaultInjector, faultError };
+export { type JournalEntry, type JournalStatus, type JournalOptions, Journal };
+export {
+  type Change,
+  Backend,
+  BackendRegistry,
+  sharedBackends,
+  resetAllBackends,
+  applyChange,
+  changedKey,
+  describeChange,
+};
+export { type MockSnapshot };
+export { type Quota, checkQuota, quotaExceededError, estimateSize, entrySize };
+export { type ProfileName, type BackendProfile, profiles, jsonRoundTrip, cloneValue };
+export { type KeyOrder, orderKeys };
+export { type Serialization, type Turn, OperationQueue };
+export { type ManualOperation, ManualControl, manualRejection };
+export { type PendingOperation, PendingOperations };
+export { type PersistenceAdapter, type PersistedEntries, MemoryPersistence };
+export { type ViewSource, MockStorageView };
+export { InvalidStateError, DataCloneError, QuotaExceededError, NotInitializedError };
+export { type LifecycleState, afterInit, lifecycleError, initError, isOpen };
+export { type ValueTarget, type ValueIssue, findValueIssues, formatIssues };
+export { type AuditedWrite, type AuditWarning, FidelityAudit };
+export { type KeyStats, type HighWaterMarks, type StorageStats, type StatsOptions };
+export {
+  type EncodedValue,
+  type FixtureStep,
+  type SessionFixture,
+  type CompareOptions,
+  type StepMismatch,
+  encodeValue,
+  decodeValue,
+  createFixture,
+  compareFixtures,
+  formatMismatches,
+};
+export {
+  type StorageChange,
+  type StorageChangeType,
+  type ChangeListener,
+  type ChangeObserver,
+  type ListenerErrorHandler,
+  logListenerError,
+  dispatchStorageEvent,
+};
+
+export const defaultDelay: Delay = [10, 100];
+
+// `[from, to]` in milliseconds
+export type Delay = [number, number];
+
+/**
+ * When async operations read and write the storage:
+ *
+ * 'capture-at-call' - reads at the call, writes when the operation resolves
+ * 'read-at-resolve' - reads and writes when the operation resolves
+ * 'strong' - reads and writes at the call, in call order, only the result is delayed
+ * 'eventual' - like 'read-at-resolve', but each instance works with its own copy
+ *              of a shared storage, writes reach the others after `replicationLag`
+ */
+export type Consistency = 'capture-at-call' | 'read-at-resolve' | 'strong' | 'eventual';
+
+// Per-method latency, methods that are not listed use `default`
+export type DelayProfile = Partial<Record<AsyncMethodName | 'default', Delay>>;
+
+type Outcome = { data: unknown } | { error: unknown };
 
 interface DelaySetup {
+  method?: AsyncMethodName;
+  args?: unknown[];
+  key?: string;
+  // The result of a read, called when the consistency model says so
+  read?: () => unknown;
   resolve?: { data: unknown };
   reject?: { data: unknown };
   action?: () => void;
   delay?: number;
 }
 
-export const randomInRange = (min: number, max: number): number => {
+export const randomInRange = (
+  min: number,
+  max: number,
+  random: Random = Math.random
+): number => {
   if (min === 0 && max === 0) return 0;
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+  return Math.floor(random() * (max - min + 1)) + min;
+};
+
+export interface MockOptions {
+  // The same seed gives the same delays and therefore
+  // the same order in which concurrent operations settle
+  seed?: number;
+  // Real `setTimeout` by default, use `VirtualClock` to step through operations
+  scheduler?: Scheduler;
+  // Instances with the same storage name share data,
+  // `true` uses the global registry (see `resetAllBackends`)
+  shared?: boolean | BackendRegistry;
+  // Writes over the limits fail with 'QuotaExceededError'
+  quota?: Quota;
+  // Value semantics, key order, errors and sync/async availability
+  // of a real interface, default: 'mock'
+  profile?: ProfileName | BackendProfile;
+  // Order of `key(index)` and therefore of iteration, default: from the profile.
+  // 'shuffled' uses the seed
+  keyOrder?: KeyOrder;
+  // Default: 'capture-at-call'
+  consistency?: Consistency;
+  // For 'eventual', default: `[10, 100]`
+  replicationLag?: Delay;
+  // Default: 'concurrent'
+  serialization?: Serialization;
+  // Async operations wait until the test settles them through `mock.manual`
+  manual?: boolean | ManualControl;
+  // Changes made by other instances are also dispatched
+  // as a `StorageEvent` on `window`, default: false
+  storageEvents?: boolean;
+  // Errors thrown by `onChange` listeners, default: `console.error`
+  onListenerError?: ListenerErrorHandler;
+  // Data is loaded when the storage is opened and saved after every change
+  persistence?: PersistenceAdapter;
+  // Refuses values the profile's backend would not store unchanged: functions,
+  // symbols, class instances, `undefined` in arrays for JSON... Default: false
+  strict?: boolean;
+  // Written values are compared against what JSON and structured clone
+  // would store, lossy paths are collected in `mock.audit`. Default: false
+  audit?: boolean | FidelityAudit;
+  // Calls are recorded in `mock.journal`, `false` turns it off. Default: true
+  journal?: boolean | JournalOptions;
+}
+
+export const isDelay = (value: unknown): value is Delay => {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    value.every((n) => typeof n === 'number' && n >= 0) &&
+    (value[0] as number) <= (value[1] as number)
+  );
+};
+
+// A typo like 'getItemAsnyc' would silently fall back to 'default'
+const delayProfileKeys = [...operationNames.map((name) => `${name}Async`), 'default'];
+
+const isDelayProfile = (value: unknown): value is DelayProfile => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  return Object.entries(value).every(
+    ([key, delay]) => delayProfileKeys.includes(key) && isDelay(delay)
+  );
+};
+
+// Fixtures come from files: a step like `{ method: 'close' }` must not reach other methods
+const checkReplayedMethod = (method: unknown): void => {
+  if (!isMethodName(method)) throw Error(`replay: unknown method '${String(method)}'!`);
 };
 
 export class MockInterface extends StorageInterface {
@@ -38,78 +283,655 @@ export class MockInterface extends StorageInterface {
 
   storageName = '';
 
-  private isDeleted = false;
+  backend = new Backend('');
+
+  // This instance's copy of the backend with 'eventual' consistency
+  replica?: Map<string, unknown>;
+
+  consistency: Consistency;
+
+  replicationLag: Delay;
+
+  serialization: Serialization;
+
+  queue = new OperationQueue();
+
+  // `undefined` if operations are not settled manually
+  manual?: ManualControl;
+
+  pending = new PendingOperations();
+
+  storageEvents: boolean;
+
+  listeners = new Set<ChangeListener>();
+
+  onListenerError: ListenerErrorHandler;
+
+  // See `state`
+  lifecycle: StoredLifecycleState = 'uninitialized';
+
+  persistence?: PersistenceAdapter;
+
+  // See `MockOptions.strict`
+  strict: boolean;
 
-  storage: Map<string, unknown> = new Map<string, unknown>();
+  // `undefined` if written values are not audited
+  audit?: FidelityAudit;
+
+  // See `stats()`
+  usage = new UsageTracker();
+
+  // `undefined` if the backend is not shared
+  registry?: BackendRegistry;
+
+  delay: Delay | DelayProfile = defaultDelay;
+
+  // Set by `replayStep` while it calls an async method: the recorded duration
+  replayDelay?: number;
+
+  // Random if not set, read it to reproduce a run
+  readonly seed: number;
+
+  random: Random;
+
+  scheduler: Scheduler;
+
+  faults = new FaultInjector();
+
+  quota: Quota;
+
+  profile: BackendProfile;
+
+  keyOrder: KeyOrder;
+
+  journal: Journal;
+
+  constructor(options: MockOptions = {}) {
+    super();
+    this.seed = options.seed ?? randomSeed();
+    this.random = createRandom(this.seed);
+    this.scheduler = options.scheduler ?? realScheduler;
+    this.quota = options.quota ?? {};
+    const profile = options.profile ?? 'mock';
+    this.profile = typeof profile === 'string' ? profiles[profile] : profile;
+    this.keyOrder = options.keyOrder ?? this.profile.keyOrder;
+    this.consistency = options.consistency ?? 'capture-at-call';
+    this.replicationLag = options.replicationLag ?? defaultDelay;
+    this.serialization = options.serialization ?? 'concurrent';
+    this.storageEvents = options.storageEvents ?? false;
+    this.onListenerError = options.onListenerError ?? logListenerError;
+    this.persistence = options.persistence;
+    this.strict = options.strict ?? false;
+    const { journal } = options;
+    this.journal = new Journal(
+      typeof journal === 'boolean' ? { maxEntries: journal ? Infinity : 0 } : journal
+    );
+    if (options.audit === true) this.audit = new FidelityAudit();
+    else if (options.audit instanceof FidelityAudit) this.audit = options.audit;
+    if (options.manual === true) this.manual = new ManualControl();
+    else if (options.manual instanceof ManualControl) this.manual = options.manual;
+    if (this.profile.shareable) {
+      if (options.shared === true) this.registry = sharedBackends;
+      else if (options.shared instanceof BackendRegistry) this.registry = options.shared;
+    }
+  }
+
+  defaultAsyncMode(): boolean {
+    return this.profile.defaultAsyncMode;
+  }
+
+  // The real interface does not implement this method
+  unavailable(method: MethodName): Error | undefined {
+    const available = isAsyncMethod(method) ? this.profile.async : this.profile.sync;
+    return available ? undefined : this.notImplementedError(method);
+  }
+
+  checkAvailable(method: SyncMethodName): void {
+    const error = this.unavailable(method);
+    if (error !== undefined) throw error;
+  }
+
+  // Keys in the order `key(index)` returns them
+  keys(): string[] {
+    return orderKeys(Array.from(this.storage.keys()), this.keyOrder, this.seed);
+  }
+
+  readItem(key: string): unknown {
+    this.usage.read(key);
+    return cloneValue(this.profile, this.storage.get(key));
+  }
+
+  // What this instance sees
+  get storage(): Map<string, unknown> {
+    return this.replica ?? this.backend.storage;
+  }
+
+  // Replaces the data of the backend, instances that share it see the new data too
+  set storage(storage: Map<string, unknown>) {
+    this.backend.storage = storage;
+    this.backend.syncReplicas();
+    this.usage.changed(this.storage, null);
+  }
+
+  get state(): LifecycleState {
+    const { lifecycle } = this;
+    if (lifecycle === 'closed' || lifecycle === 'uninitialized') return lifecycle;
+    return this.backend.deleted ? 'deleted' : lifecycle;
+  }
+
+  get closed(): boolean {
+    return this.lifecycle === 'closed';
+  }
+
+  // Read-only and live: reflects later changes
+  view(): MockStorageView {
+    return new MockStorageView(this);
+  }
+
+  // `undefined` if the storage can be used
+  storageError(): Error | undefined {
+    return lifecycleError(this.state);
+  }
 
   checkStorage(): void {
-    if (this.isDeleted) throw Error('This Storage was deleted!');
+    const error = this.storageError();
+    if (error !== undefined) throw error;
+  }
+
+  // Like closing a tab: the instance stops seeing other instances' changes,
+  // its methods throw and its pending async operations reject
+  close(): void {
+    this.lifecycle = 'closed';
+    this.backend.observers.delete(this.observer);
+    if (this.replica !== undefined) this.backend.replicas.delete(this.replica);
+  }
+
+  // Entries in order, storage name and the deleted flag
+  snapshot(): MockSnapshot {
+    return snapshotBackend(this.backend, this.storageName);
+  }
+
+  // Restores entries and the deleted flag, the storage name is not changed
+  restore(snapshot: MockSnapshot): void {
+    restoreBackend(this.backend, snapshot);
+    this.usage.changed(this.storage, null);
+  }
+
+  // Checks the key, validates the value in the strict mode and clones it
+  prepareItem(key: string, value: unknown): unknown {
+    if (key === this.profile.reservedKey?.(this.storageName)) {
+      throw this.interfaceError(`key '${key}' cannot be used.`);
+    }
+    if (this.strict) {
+      const issues = findValueIssues(value, this.profile.values, key);
+      if (issues.length > 0) {
+        const target = `'${this.profile.name}' (${this.profile.values})`;
+        throw new DataCloneError(
+          `The value of '${key}' would not survive ${target}:\n${formatIssues(issues)}`,
+          issues
+        );
+      }
+    }
+    return cloneValue(this.profile, value);
+  }
+
+  // Writes a prepared value if it fits into the quota
+  storeItem(key: string, clone: unknown): void {
+    checkQuota(this.storage, key, clone, this.quota);
+    this.change({ type: 'set', key, value: clone });
+    this.usage.write(key);
+  }
+
+  // With 'eventual' consistency the change is applied to this instance's copy,
+  // it reaches the backend and other instances after `replicationLag`
+  change(change: Change): void {
+    const { replica, backend } = this;
+    if (replica === undefined) {
+      const event = describeChange(backend.storage, change, backend.name);
+      applyChange(backend.storage, change);
+      this.usage.changed(this.storage, changedKey(change));
+      backend.persist();
+      if (event !== undefined) backend.notify(event, this);
+      return;
+    }
+    applyChange(replica, change);
+    this.usage.changed(this.storage, changedKey(change));
+    this.scheduler.setTimeout(() => {
+      if (backend.deleted) return;
+      // Other instances are notified when the change reaches the backend
+      const event = describeChange(backend.storage, change, backend.name);
+      // Every copy, the writer's too, applies changes in the order
+      // they reach the backend, so all of them end up the same
+      applyChange(backend.storage, change);
+      backend.replicas.forEach((copy) => {
+        applyChange(copy, change);
+      });
+      // Changes of others that reached the backend first are overwritten in the copy
+      if (this.replica === replica) this.usage.changed(replica, changedKey(change));
+      backend.persist();
+      if (event !== undefined) backend.notify(event, this);
+    }, randomInRange(...this.replicationLag, this.random));
+  }
+
+  destroyBackend(): void {
+    const { backend } = this;
+    backend.destroy();
+    this.usage.changed(this.storage, null);
+    backend.notify(storageChange('deleteStorage', backend.name), this);
+  }
+
+  // The writer is not notified about its own changes, like in browsers
+  readonly observer: ChangeObserver = (change, source) => {
+    if (source === this) return;
+    this.usage.changed(this.storage, change.key);
+    if (this.listeners.size > 0) {
+      const copy = cloneChange(change);
+      this.listeners.forEach((listener) => {
+        try {
+          listener(copy);
+        } catch (e) {
+          this.onListenerError(e, copy);
+        }
+      });
+    }
+    if (this.storageEvents) dispatchStorageEvent(change);
+  };
+
+  /**
+   * Usage of this instance's storage: sizes are estimates (see `estimateSize`),
+   * reads and writes are counted for this instance's calls.
+   * High-water marks and counts are kept since `resetStats()`
+   */
+  stats(options?: StatsOptions): StorageStats {
+    return this.usage.stats(this.storage, this.keys(), options);
+  }
+
+  resetStats(): void {
+    this.usage.reset(this.storage, this.scheduler.now());
+  }
+
+  // Changes made by other instances that share the storage,
+  // returns a function that removes the listener
+  onChange(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  initError(name: string): Error | undefined {
+    return initError(this.state, this.storageName, name);
+  }
+
+  // Throws if saved data can't be loaded, the instance is not changed then
+  openBackend(name: string): void {
+    const backend = this.registry?.open(name) ?? new Backend(name);
+    if (this.persistence !== undefined) backend.attach(this.persistence);
+    this.storageName = name;
+    this.lifecycle = afterInit(this.state);
+    if (this.replica !== undefined) this.backend.replicas.delete(this.replica);
+    this.backend.observers.delete(this.observer);
+    this.backend = backend;
+    this.backend.observers.add(this.observer);
+    if (this.consistency === 'eventual') {
+      this.replica = new Map(this.backend.storage);
+      this.backend.replicas.add(this.replica);
+    }
+    this.usage.changed(this.storage, null);
+  }
+
+  // Makes matching sync methods throw and async methods reject,
+  // returns a function that removes the rule
+  addFault(rule: FaultRule): () => void {
+    return this.faults.add(rule);
+  }
+
+  clearFaults(): void {
+    this.faults.clear();
+  }
+
+  checkFault(method: SyncMethodName, key?: string): void {
+    const fault = this.faults.check({ method, key }, this.random);
+    if (fault !== undefined) throw fault.error;
+  }
+
+  resetJournal(): void {
+    this.journal.reset();
+  }
+
+  checkJournal(caller: string): void {
+    if (!this.journal.enabled) {
+      throw Error(`'${caller}': the storage was created with 'journal: false'`);
+    }
+  }
+
+  // The journal as plain JSON, see `replay`
+  recordFixture(): SessionFixture {
+    this.checkJournal('recordFixture');
+    return createFixture(this.journal.entries(), {
+      profile: this.profile.name,
+      seed: this.seed,
+    });
+  }
+
+  // Calls the methods of the fixture at their recorded times, async ones take
+  // their recorded duration, so concurrent calls overlap like they did.
+  // When all of them are done, compares the new calls with the recorded ones
+  async replay(
+    fixture: SessionFixture,
+    options?: CompareOptions
+  ): Promise<StepMismatch[]> {
+    this.checkJournal('replay');
+    fixture.steps.forEach(({ method }) => {
+      checkReplayedMethod(method);
+    });
+    const from = this.journal.lastCallId();
+    const start = this.scheduler.now();
+    const calls: Array<Promise<unknown>> = [];
+    for (let i = 0; i < fixture.steps.length; i += 1) {
+      const step = fixture.steps[i];
+      const ms = start + step.startedAt - this.scheduler.now();
+      if (ms > 0) {
+        // eslint-disable-next-line no-await-in-loop
+        await new Promise((resolve) => {
+          this.scheduler.setTimeout(() => {
+            resolve(undefined);
+          }, ms);
+        });
+      }
+      // Errors are compared below
+      calls.push(
+        new Promise((resolve) => {
+          resolve(this.replayStep(step));
+        }).catch(() => undefined)
+      );
+    }
+    await Promise.all(calls);
+    const replayed = createFixture(
+      this.journal.filter(({ id }) => id > from),
+      {
+        profile: this.profile.name,
+        seed: this.seed,
+      }
+    );
+    return compareFixtures(fixture, replayed, options);
+  }
+
+  // Calls the method of the step, an async one takes the recorded duration
+  replayStep(step: FixtureStep): unknown {
+    checkReplayedMethod(step.method);
+    const args = step.args.map(decodeValue);
+    // Async methods pick their delay before they return
+    this.replayDelay = isAsyncMethod(step.method) ? step.duration : undefined;
+    try {
+      if (step.method === 'initSync' || step.method === 'initAsync') {
+        const setup = { use: this, name: args[0] as string | undefined };
+        return step.method === 'initSync' ? this.initSync(setup) : this.initAsync(setup);
+      }
+      const method = this[step.method] as (...params: unknown[]) => unknown;
+      return method.apply(this, args);
+    } finally {
+      this.replayDelay = undefined;
+    }
+  }
+
+  pendingOperations(): PendingOperation[] {
+    return this.pending.list();
+  }
+
+  // With a virtual clock or manual mode the test has to settle operations meanwhile
+  async whenIdle(): Promise<void> {
+    return this.pending.whenIdle();
+  }
+
+  // Errors returned instead of thrown (like 'initSync' does) are recorded as errors
+  record<R>(method: SyncMethodName, args: unknown[], body: () => R): R {
+    const entry = this.journal.start(method, args, this.scheduler.now());
+    try {
+      const result = body();
+      this.journal.finish(
+        entry,
+        this.scheduler.now(),
+        result instanceof Error ? { error: result } : { result }
+      );
+      return result;
+    } catch (e) {
+      this.journal.finish(entry, this.scheduler.now(), { error: e });
+      throw e;
+    }
+  }
+
+  // Reads `delay` from `createStorage` setup
+  setupDelay<T extends StorageInterface>(setup: Setup<T>): Error | Ok {
+    if (setup.delay === undefined) return new Ok();
+    if (!isDelay(setup.delay) && !isDelayProfile(setup.delay)) {
+      return this.interfaceError(
+        `'delay' must be '[from, to]' or an object with '[from, to]' per method!`
+      );
+    }
+    this.delay = setup.delay;
+    return new Ok();
+  }
+
+  getDelay(method?: AsyncMethodName): Delay {
+    if (isDelay(this.delay)) return this.delay;
+    const methodDelay = method === undefined ? undefined : this.delay[method];
+    return methodDelay ?? this.delay.default ?? defaultDelay;
   }
 
   // Sync
   initSync<T extends StorageInterface>(setup: Setup<T>): Error | Ok {
-    this.storageName = setup.name ?? defaultStorageName;
-    return new Ok();
+    return this.record('initSync', [setup.name], () => {
+      const unavailable = this.unavailable('initSync');
+      if (unavailable !== undefined) return unavailable;
+      const name = setup.name ?? defaultStorageName;
+      const error = this.initError(name);
+      if (error !== undefined) return error;
+      const result = this.setupDelay(setup);
+      if (result instanceof Error) return result;
+      const fault = this.faults.check({ method: 'initSync' }, this.random);
+      if (fault !== undefined) {
+        return fault.error instanceof Error ? fault.error : Error(String(fault.error));
+      }
+      try {
+        if (!isOpen(this.state)) this.openBackend(name);
+      } catch (e) {
+        return e instanceof Error ? e : Error(String(e));
+      }
+      return new Ok();
+    });
   }
 
   getItemSync(key: string): unknown {
-    this.checkStorage();
-    return structuredClone(this.storage.get(key));
+    return this.record('getItemSync', [key], () => {
+      this.checkAvailable('getItemSync');
+      this.checkStorage();
+      this.checkFault('getItemSync', key);
+      return this.readItem(key);
+    });
   }
 
   setItemSync(key: string, value: unknown): void {
-    this.checkStorage();
-    this.storage.set(key, structuredClone(value));
+    this.record('setItemSync', [key, value], () => {
+      this.checkAvailable('setItemSync');
+      this.checkStorage();
+      this.checkFault('setItemSync', key);
+      this.audit?.check(value, {
+        key,
+        method: 'setItemSync',
+        storageName: this.storageName,
+      });
+      this.storeItem(key, this.prepareItem(key, value));
+    });
   }
 
   removeItemSync(key: string): void {
-    this.checkStorage();
-    this.storage.delete(key);
+    this.record('removeItemSync', [key], () => {
+      this.checkAvailable('removeItemSync');
+      this.checkStorage();
+      this.checkFault('removeItemSync', key);
+      this.change({ type: 'remove', key });
+    });
   }
 
   clearSync(): void {
-    this.checkStorage();
-    this.storage.clear();
+    this.record('clearSync', [], () => {
+      this.checkAvailable('clearSync');
+      this.checkStorage();
+      this.checkFault('clearSync');
+      this.change({ type: 'clear' });
+    });
   }
 
   sizeSync(): number {
-    this.checkStorage();
-    return this.storage.size;
+    return this.record('sizeSync', [], () => {
+      this.checkAvailable('sizeSync');
+      this.checkStorage();
+      this.checkFault('sizeSync');
+      return this.storage.size;
+    });
   }
 
   keySync(index: number): string | undefined {
-    this.checkStorage();
-    return Array.from(this.storage)[index]?.[0];
+    return this.record('keySync', [index], () => {
+      this.checkAvailable('keySync');
+      this.checkStorage();
+      this.checkFault('keySync');
+      return this.keys()[index];
+    });
   }
 
   deleteStorageSync(): void {
-    this.checkStorage();
-    // There should be logic for deleting real storage
-    this.storage.clear();
-    this.isDeleted = true;
+    this.record('deleteStorageSync', [], () => {
+      this.checkAvailable('deleteStorageSync');
+      this.checkStorage();
+      this.checkFault('deleteStorageSync');
+      // There should be logic for deleting real storage
+      this.destroyBackend();
+    });
   }
 
   // Async
   async wait(setup: DelaySetup): Promise<unknown> {
-    return new Promise((resolve, reject) => {
-      const delay = (setup.delay ?? defaultDelay) as [number, number];
-      setTimeout(() => {
-        if (this.isDeleted) reject(Error('This Storage was deleted!'));
-        const bothSet = setup.resolve !== undefined && setup.reject !== undefined;
-        const bothNotSet = setup.resolve === undefined && setup.reject === undefined;
-        if (bothSet || bothNotSet)
-          throw Error(`'wait({...})': Use 'resolve' OR 'reject'!`);
-        setup.action?.();
-        if (setup.resolve !== undefined) resolve(setup.resolve.data);
-        if (setup.reject !== undefined) reject(setup.reject.data);
-      }, setup.delay ?? randomInRange(...delay));
+    const results = [setup.resolve, setup.reject, setup.read].filter(
+      (r) => r !== undefined
+    );
+    if (results.length !== 1)
+      throw Error(`'wait({...})': Use 'resolve', 'read' OR 'reject'!`);
+    const unavailable =
+      setup.method === undefined ? undefined : this.unavailable(setup.method);
+    const fault =
+      setup.method === undefined || unavailable !== undefined
+        ? undefined
+        : this.faults.check({ method: setup.method, key: setup.key }, this.random);
+    const failure = unavailable !== undefined ? { error: unavailable } : fault;
+    // Rejects instead of applying the action
+    const actual: DelaySetup =
+      failure === undefined
+        ? setup
+        : {
+            ...setup,
+            action: undefined,
+            resolve: undefined,
+            read: undefined,
+            reject: { data: failure.error },
+          };
+    const entry =
+      setup.method === undefined
+        ? undefined
+        : this.journal.start(setup.method, setup.args ?? [], this.scheduler.now());
+    // Init is allowed before init and after a delete
+    const deleted = (): Outcome | undefined => {
+      const error =
+        setup.method === 'initAsync'
+          ? this.initError((setup.args?.[0] as string | undefined) ?? defaultStorageName)
+          : this.storageError();
+      return error === undefined ? undefined : { error };
+    };
+    const settle = (): Outcome => {
+      if (actual.reject !== undefined) return { error: actual.reject.data };
+      const error = deleted();
+      if (error !== undefined) return error;
+      try {
+        actual.action?.();
+        return { data: actual.read === undefined ? actual.resolve?.data : actual.read() };
+      } catch (e) {
+        return { error: e };
+      }
+    };
+    // 'capture-at-call' captures reads only, the storage
+    // can still be deleted before the operation resolves
+    const strong = this.consistency === 'strong';
+    const capture = this.consistency === 'capture-at-call' && actual.action === undefined;
+    const turn: Turn | undefined =
+      this.serialization === 'concurrent'
+        ? undefined
+        : this.queue.enter(this.serialization, setup.key);
+    const ms =
+      actual.delay ??
+      this.replayDelay ??
+      randomInRange(...this.getDelay(actual.method), this.random);
+    // A serialized operation is "called" when its turn comes, except for 'strong'
+    let atCall = strong || (capture && turn === undefined) ? settle() : undefined;
+    const promise = new Promise((resolve, reject) => {
+      const start = (): void => {
+        if (capture && turn !== undefined) atCall = settle();
+        const fire = (): void => {
+          let outcome: Outcome;
+          if (atCall === undefined) outcome = settle();
+          else if (strong || 'error' in atCall) outcome = atCall;
+          else outcome = deleted() ?? atCall;
+          turn?.leave();
+          if ('error' in outcome) reject(outcome.error);
+          else resolve(outcome.data);
+        };
+        if (this.manual === undefined || actual.method === undefined) {
+          this.scheduler.setTimeout(fire, ms);
+          return;
+        }
+        this.manual.add({
+          method: actual.method,
+          key: actual.key,
+          value:
+            actual.method === 'setItemAsync' ? safeClone(actual.args?.[1]) : undefined,
+          resolve: fire,
+          reject: (error: unknown) => {
+            turn?.leave();
+            reject(error);
+          },
+        });
+      };
+      if (turn === undefined) start();
+      else void turn.ready.then(start);
     });
+    if (entry === undefined || setup.method === undefined) return promise;
+    const removePending = this.pending.add(setup.method, setup.key, entry.startedAt);
+    return promise.then(
+      (result) => {
+        this.journal.finish(entry, this.scheduler.now(), { result });
+        removePending();
+        return result;
+      },
+      (error: unknown) => {
+        this.journal.finish(entry, this.scheduler.now(), { error });
+        removePending();
+        throw error;
+      }
+    );
   }
 
   async initAsync<T extends StorageInterface>(setup: Setup<T>): Promise<Error | Ok> {
+    const name = setup.name ?? defaultStorageName;
+    // A rejected init doesn't change the delay, the error comes when it settles
+    if (this.initError(name) === undefined) {
+      const result = this.setupDelay(setup);
+      if (result instanceof Error) return Promise.reject(result);
+    }
     return this.wait({
+      method: 'initAsync',
+      args: [setup.name],
       action: () => {
-        this.storageName = setup.name ?? defaultStorageName;
+        if (!isOpen(this.state)) this.openBackend(name);
       },
       resolve: { data: new Ok() },
     }) as Promise<Error | Ok>;
@@ -117,14 +939,34 @@ export class MockInterface extends StorageInterface {
 
   async getItemAsync(key: string): Promise<Error | unknown> {
     return this.wait({
-      resolve: { data: structuredClone(this.storage.get(key)) },
+      method: 'getItemAsync',
+      args: [key],
+      key,
+      read: () => this.readItem(key),
     });
   }
 
   async setItemAsync(key: string, value: unknown): Promise<Error | Ok> {
+    // Cloned at call time like IndexedDB does: changes made to the value
+    // after the call are not stored, a clone error rejects the operation
+    this.audit?.check(value, {
+      key,
+      method: 'setItemAsync',
+      storageName: this.storageName,
+    });
+    let prepared: Outcome;
+    try {
+      prepared = { data: this.prepareItem(key, value) };
+    } catch (error) {
+      prepared = { error };
+    }
     return this.wait({
+      method: 'setItemAsync',
+      args: [key, value],
+      key,
       action: () => {
-        this.storage.set(key, structuredClone(value));
+        if ('error' in prepared) throw prepared.error;
+        this.storeItem(key, prepared.data);
       },
       resolve: { data: new Ok() },
     }) as Promise<Error | Ok>;
@@ -132,8 +974,11 @@ export class MockInterface extends StorageInterface {
 
   async removeItemAsync(key: string): Promise<Error | Ok> {
     return this.wait({
+      method: 'removeItemAsync',
+      args: [key],
+      key,
       action: () => {
-        this.storage.delete(key);
+        this.change({ type: 'remove', key });
       },
       resolve: { data: new Ok() },
     }) as Promise<Error | Ok>;
@@ -141,8 +986,10 @@ export class MockInterface extends StorageInterface {
 
   async clearAsync(): Promise<Error | Ok> {
     return this.wait({
+      method: 'clearAsync',
+      args: [],
       action: () => {
-        this.storage.clear();
+        this.change({ type: 'clear' });
       },
       resolve: { data: new Ok() },
     }) as Promise<Error | Ok>;
@@ -150,22 +997,27 @@ export class MockInterface extends StorageInterface {
 
   async sizeAsync(): Promise<Error | number> {
     return this.wait({
-      resolve: { data: this.storage.size },
+      method: 'sizeAsync',
+      args: [],
+      read: () => this.storage.size,
     }) as Promise<Error | number>;
   }
 
   async keyAsync(index: number): Promise<Error | string | undefined> {
     return this.wait({
-      resolve: { data: Array.from(this.storage)[index]?.[0] },
+      method: 'keyAsync',
+      args: [index],
+      read: () => this.keys()[index],
     }) as Promise<Error | string | undefined>;
   }
 
   async deleteStorageAsync(): Promise<Error | Ok> {
     return this.wait({
+      method: 'deleteStorageAsync',
+      args: [],
       action: () => {
         // There should be logic for deleting real storage
-        this.storage.clear();
-        this.isDeleted = true;
+        this.destroyBackend();
       },
       resolve: { data: new Ok() },
     }) as Promise<Error | Ok>;
@@ -173,16 +1025,72 @@ export class MockInterface extends StorageInterface {
 }
 
 // For tests
-export const getMockStorage = (storage: StorageFacade): Map<string, unknown> => {
-  const base = Object.getPrototypeOf(
-    Object.getPrototypeOf(storage)
-  ) as Base<MockInterface>;
-  return base.storageInterface.storage;
+
+const maxPrototypeDepth = 10;
+
+// Read through the descriptor: storage-facade proxies turn reads into `getItem` calls
+const ownValue = (object: object, key: string): unknown =>
+  Object.getOwnPropertyDescriptor(object, key)?.value;
+
+// Recognized by its own properties, not by `Base.prototype`: the facade
+// can come from another copy of storage-facade than the one bundled here
+const looksLikeBase = (value: unknown): value is object =>
+  typeof value === 'object' &&
+  value !== null &&
+  ownValue(value, 'operationResults') instanceof Map &&
+  typeof ownValue(value, 'storageInterface') === 'object';
+
+// Walks the prototype chain of the facade to the `Base` object. The inner
+// proxy forwards own properties to it, so the last object that has them is taken
+const findBase = (storage: StorageFacade): Base<StorageInterface> | undefined => {
+  let current: unknown = storage;
+  for (let depth = 0; depth < maxPrototypeDepth; depth += 1) {
+    if (typeof current !== 'object' || current === null) return undefined;
+    const prototype: unknown = Object.getPrototypeOf(current);
+    if (looksLikeBase(current) && !looksLikeBase(prototype)) {
+      return current as Base<StorageInterface>;
+    }
+    current = prototype;
+  }
+  return undefined;
 };
 
 export const getBase = (storage: StorageFacade): Base<MockInterface> => {
-  const base = Object.getPrototypeOf(
-    Object.getPrototypeOf(storage)
-  ) as Base<MockInterface>;
-  return base;
+  const base = findBase(storage);
+  if (base === undefined) {
+    throw Error(`'getBase': the value is not a storage created with 'createStorage'`);
+  }
+  const { storageInterface } = base;
+  if (!(storageInterface instanceof MockInterface)) {
+    throw Error(
+      `'getBase': the storage uses '${storageInterface.interfaceName}', not 'MockInterface'`
+    );
+  }
+  return base as Base<MockInterface>;
+};
+
+// The instance passed to `createStorage({ use: ... })`
+export const getMockInterface = (storage: StorageFacade): MockInterface => {
+  return getBase(storage).storageInterface;
+};
+
+export const inspectStorage = (storage: StorageFacade): MockStorageView => {
+  return getMockInterface(storage).view();
+};
+
+// Mutable, prefer `inspectStorage`
+export const getMockStorage = (storage: StorageFacade): Map<string, unknown> => {
+  return getMockInterface(storage).storage;
+};
+
+export const getJournal = (storage: StorageFacade): Journal => {
+  return getMockInterface(storage).journal;
+};
+
+export const getSnapshot = (storage: StorageFacade): MockSnapshot => {
+  return getMockInterface(storage).snapshot();
+};
+
+export const restoreSnapshot = (storage: StorageFacade, snapshot: MockSnapshot): void => {
+  getMockInterface(storage).restore(snapshot);
 };
@@ -0,0 +1,157 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import {
+  type MethodName,
+  type OperationName,
+  operationOf,
+  isAsyncMethod,
+} from './methods';
+
+export type JournalStatus = 'pending' | 'ok' | 'error';
+
+export interface JournalEntry {
+  id: number;
+  method: MethodName;
+  operation: OperationName;
+  async: boolean;
+  // Cloned when the call is made
+  args: unknown[];
+  key?: string;
+  startedAt: number;
+  endedAt?: number;
+  duration?: number;
+  status: JournalStatus;
+  result?: unknown;
+  error?: unknown;
+}
+
+export interface JournalOptions {
+  // Only the latest calls are kept, 0 turns the journal off. Default: no limit
+  maxEntries?: number;
+}
+
+const keyOperations: OperationName[] = ['getItem', 'setItem', 'removeItem'];
+
+const writeOperations: OperationName[] = [
+  'setItem',
+  'removeItem',
+  'clear',
+  'deleteStorage',
+];
+
+// Values that can't be cloned are kept by reference
+export const safeClone = <T>(value: T): T => {
+  try {
+    return structuredClone(value);
+  } catch {
+    return value;
+  }
+};
+
+export class Journal {
+  private list: JournalEntry[] = [];
+
+  private lastId = 0;
+
+  readonly maxEntries: number;
+
+  constructor(options: JournalOptions = {}) {
+    this.maxEntries = options.maxEntries ?? Infinity;
+  }
+
+  // `false` if calls are not recorded
+  get enabled(): boolean {
+    return this.maxEntries > 0;
+  }
+
+  // The entry is not kept (and the arguments are not cloned) if the journal is off
+  start(method: MethodName, args: unknown[], now: number): JournalEntry {
+    this.lastId += 1;
+    const operation = operationOf(method);
+    const entry: JournalEntry = {
+      id: this.lastId,
+      method,
+      operation,
+      async: isAsyncMethod(method),
+      args: this.enabled ? args.map(safeClone) : [],
+      startedAt: now,
+      status: 'pending',
+    };
+    if (keyOperations.includes(operation)) entry.key = args[0] as string;
+    if (!this.enabled) return entry;
+    this.list.push(entry);
+    if (this.list.length > this.maxEntries) this.list.shift();
+    return entry;
+  }
+
+  finish(
+    entry: JournalEntry,
+    now: number,
+    outcome: { result: unknown } | { error: unknown }
+  ): void {
+    const state = entry;
+    state.endedAt = now;
+    state.duration = now - state.startedAt;
+    if ('error' in outcome) {
+      state.status = 'error';
+      state.error = outcome.error;
+    } else {
+      state.status = 'ok';
+      if (this.enabled) state.result = safeClone(outcome.result);
+    }
+  }
+
+  // In call order
+  entries(): JournalEntry[] {
+    return this.list.map((entry) => ({ ...entry }));
+  }
+
+  filter(predicate: (entry: JournalEntry) => boolean): JournalEntry[] {
+    return this.entries().filter(predicate);
+  }
+
+  // 'setItem' matches both 'setItemSync' and 'setItemAsync'
+  byMethod(method: MethodName | OperationName): JournalEntry[] {
+    return this.filter((e) => e.method === method || e.operation === method);
+  }
+
+  // 'setItem' and 'removeItem' calls for `key`,
+  // also 'clear' and 'deleteStorage' if `key` is not set
+  writes(key?: string): JournalEntry[] {
+    if (key === undefined)
+      return this.filter((e) => writeOperations.includes(e.operation));
+    return this.filter((e) => e.key === key && e.operation !== 'getItem');
+  }
+
+  reads(key?: string): JournalEntry[] {
+    return this.filter(
+      (e) => e.operation === 'getItem' && (key === undefined || e.key === key)
+    );
+  }
+
+  errors(): JournalEntry[] {
+    return this.filter((e) => e.status === 'error');
+  }
+
+  pending(): JournalEntry[] {
+    return this.filter((e) => e.status === 'pending');
+  }
+
+  size(): number {
+    return this.list.length;
+  }
+
+  // The id of the latest call, removed or not, 0 before the first one
+  lastCallId(): number {
+    return this.lastId;
+  }
+
+  reset(): void {
+    this.list = [];
+  }
+}
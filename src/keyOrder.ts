@@ -0,0 +1,32 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { createRandom } from './random';
+
+export type KeyOrder = 'insertion' | 'lexicographic' | 'reverse' | 'shuffled';
+
+// 'shuffled' depends only on the set of keys and the seed,
+// so `key(index)` calls made during one iteration agree with each other
+export const orderKeys = (keys: string[], order: KeyOrder, seed: number): string[] => {
+  switch (order) {
+    case 'lexicographic':
+      return [...keys].sort();
+    case 'reverse':
+      return [...keys].reverse();
+    case 'shuffled': {
+      const random = createRandom(seed);
+      const shuffled = [...keys].sort();
+      for (let i = shuffled.length - 1; i > 0; i -= 1) {
+        const j = Math.floor(random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return shuffled;
+    }
+    default:
+      return keys;
+  }
+};
@@ -0,0 +1,54 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { InvalidStateError, NotInitializedError } from './errors';
+
+/**
+ * uninitialized --init--> open --deleteStorage--> deleted --init--> reopened
+ * reopened --deleteStorage--> deleted
+ * any state --close--> closed
+ *
+ * Another instance that shares the storage can delete it too.
+ */
+export type LifecycleState = 'uninitialized' | 'open' | 'deleted' | 'reopened' | 'closed';
+
+// 'deleted' is not stored, it comes from the backend
+export type StoredLifecycleState = Exclude<LifecycleState, 'deleted'>;
+
+// The state after a successful init
+export const afterInit = (state: LifecycleState): StoredLifecycleState => {
+  return state === 'deleted' || state === 'reopened' ? 'reopened' : 'open';
+};
+
+// `undefined` if storage operations are allowed
+export const lifecycleError = (state: LifecycleState): Error | undefined => {
+  if (state === 'uninitialized') {
+    return new NotInitializedError('This Storage was not initialized!');
+  }
+  if (state === 'closed') return new InvalidStateError('This Storage was closed!');
+  if (state === 'deleted') return new InvalidStateError('This Storage was deleted!');
+  return undefined;
+};
+
+export const isOpen = (state: LifecycleState): boolean =>
+  state === 'open' || state === 'reopened';
+
+// `undefined` if init is allowed: a deleted storage can be opened again,
+// an open one under the same name only (it keeps its backend then),
+// another name would silently swap the backend
+export const initError = (
+  state: LifecycleState,
+  openName?: string,
+  name?: string
+): Error | undefined => {
+  if (isOpen(state) && name !== openName) {
+    return new InvalidStateError(
+      `This Storage is already open as '${String(openName)}'!`
+    );
+  }
+  return state === 'closed' ? lifecycleError(state) : undefined;
+};
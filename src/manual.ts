@@ -0,0 +1,144 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { type AsyncMethodName } from './methods';
+import { settlePromises } from './scheduler';
+
+export interface ManualOperation {
+  id: number;
+  method: AsyncMethodName;
+  key?: string;
+  // The value passed to 'setItemAsync'
+  value?: unknown;
+  // Settles the operation as it would settle after its delay
+  resolve: () => void;
+  // Rejects the operation without applying it
+  reject: (error?: unknown) => void;
+}
+
+export interface ManualSetup {
+  method: AsyncMethodName;
+  key?: string;
+  value?: unknown;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+export const manualRejection = (operation: ManualOperation): Error => {
+  return Error(`MockInterface: '${operation.method}' was rejected manually`);
+};
+
+export const maxOperations = 100_000;
+
+/**
+ * Pending async operations wait until the test settles them:
+ *
+ * const mock = new MockInterface({ manual: true });
+ * const result = mock.setItemAsync('value', 1);
+ * mock.manual?.resolveAll();
+ * await result;
+ */
+export class ManualControl {
+  private queue: ManualOperation[] = [];
+
+  private lastId = 0;
+
+  add(setup: ManualSetup): ManualOperation {
+    this.lastId += 1;
+    const id = this.lastId;
+    let settled = false;
+    const take = (): boolean => {
+      if (settled) return false;
+      settled = true;
+      this.queue = this.queue.filter((op) => op.id !== id);
+      return true;
+    };
+    const operation: ManualOperation = {
+      id,
+      method: setup.method,
+      key: setup.key,
+      value: setup.value,
+      resolve: () => {
+        if (take()) setup.resolve();
+      },
+      reject: (error?: unknown) => {
+        if (take()) setup.reject(error ?? manualRejection(operation));
+      },
+    };
+    this.queue.push(operation);
+    return operation;
+  }
+
+  // In queue order
+  pending(): ManualOperation[] {
+    return [...this.queue];
+  }
+
+  size(): number {
+    return this.queue.length;
+  }
+
+  // Operations added while resolving wait for the next call
+  resolveAll(): number {
+    return this.resolveWhere(() => true);
+  }
+
+  resolveWhere(predicate: (operation: ManualOperation) => boolean): number {
+    const operations = this.queue.filter(predicate);
+    operations.forEach((operation) => {
+      operation.resolve();
+    });
+    return operations.length;
+  }
+
+  rejectWhere(
+    predicate: (operation: ManualOperation) => boolean,
+    error?: unknown
+  ): number {
+    const operations = this.queue.filter(predicate);
+    operations.forEach((operation) => {
+      operation.reject(error);
+    });
+    return operations.length;
+  }
+
+  rejectAll(error?: unknown): number {
+    return this.rejectWhere(() => true, error);
+  }
+
+  // Changes the order `resolveAll` uses
+  reorder(compare: (a: ManualOperation, b: ManualOperation) => number): void {
+    this.queue.sort(compare);
+  }
+
+  reverse(): void {
+    this.queue.reverse();
+  }
+
+  move(operation: ManualOperation, index: number): void {
+    const rest = this.queue.filter((op) => op !== operation);
+    if (rest.length === this.queue.length) return;
+    rest.splice(index, 0, operation);
+    this.queue = rest;
+  }
+
+  // Resolves operations, including the ones that promise chains
+  // (e.g. 'await init' in storage-facade) start, until none are left
+  async drain(): Promise<number> {
+    let count = 0;
+    await settlePromises();
+    while (this.queue.length > 0) {
+      count += this.resolveAll();
+      if (count >= maxOperations) {
+        throw Error(`ManualControl: more than ${maxOperations} operations!`);
+      }
+      // eslint-disable-next-line no-await-in-loop
+      await settlePromises();
+    }
+    return count;
+  }
+}
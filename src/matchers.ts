@@ -0,0 +1,248 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { type StorageFacade } from 'storage-facade';
+import {
+  type SessionFixture,
+  type CompareOptions,
+  MockInterface,
+  getMockInterface,
+  compareFixtures,
+  formatMismatches,
+} from './index';
+
+// A storage created with `createStorage` or a `MockInterface` instance
+export type MockStorageLike = StorageFacade | MockInterface;
+
+// The part of Jest's matcher context the matchers use, typed here so the
+// published types don't depend on `@types/jest`, a dev dependency
+interface Context {
+  isNot?: boolean;
+  promise?: string;
+  equals: (a: unknown, b: unknown) => boolean;
+  utils: {
+    matcherHint: (
+      name: string,
+      received?: string,
+      expected?: string,
+      options?: { isNot?: boolean; promise?: string }
+    ) => string;
+    printExpected: (value: unknown) => string;
+    printReceived: (value: unknown) => string;
+    diff: (a: unknown, b: unknown) => string | null;
+  };
+}
+
+interface Result {
+  pass: boolean;
+  message: () => string;
+}
+
+const mockOf = (received: MockStorageLike): MockInterface =>
+  received instanceof MockInterface ? received : getMockInterface(received);
+
+// Storage contents as a plain object, in key order
+const contents = (mock: MockInterface): Record<string, unknown> =>
+  Object.fromEntries(mock.view().entries());
+
+const printContents = (context: Context, mock: MockInterface): string => {
+  const { state } = mock.view();
+  const stored = context.utils.printReceived(contents(mock));
+  return `Storage '${mock.storageName}' (${state}):\n  ${stored}`;
+};
+
+// The hint and the lines of the message
+const message = (
+  context: Context,
+  name: string,
+  expected: string,
+  lines: string[]
+): (() => string) => {
+  const hint = context.utils.matcherHint(name, 'storage', expected, {
+    isNot: context.isNot,
+    promise: context.promise,
+  });
+  return (): string => [hint, '', ...lines].join('\n');
+};
+
+export function toHaveStoredKey(
+  this: Context,
+  received: MockStorageLike,
+  key: string
+): Result {
+  const mock = mockOf(received);
+  const pass = mock.view().has(key);
+  const not = pass ? 'not ' : '';
+  return {
+    pass,
+    message: message(this, 'toHaveStoredKey', 'key', [
+      `Expected key ${this.utils.printExpected(key)} ${not}to be stored`,
+      printContents(this, mock),
+    ]),
+  };
+}
+
+export function toHaveStoredValue(
+  this: Context,
+  received: MockStorageLike,
+  key: string,
+  value: unknown
+): Result {
+  const mock = mockOf(received);
+  const view = mock.view();
+  const stored = view.get(key);
+  const pass = view.has(key) && this.equals(stored, value);
+  const printedKey = this.utils.printExpected(key);
+  let lines: string[];
+  if (pass) {
+    lines = [`Expected ${printedKey} not to store ${this.utils.printExpected(value)}`];
+  } else if (!view.has(key)) {
+    lines = [`Key ${printedKey} is not stored`, printContents(this, mock)];
+  } else {
+    const diff = this.utils.diff(value, stored) ?? this.utils.printReceived(stored);
+    lines = [`Value of ${printedKey}:`, '', diff];
+  }
+  return { pass, message: message(this, 'toHaveStoredValue', 'key, value', lines) };
+}
+
+// Compares all entries, order is ignored
+export function toHaveStoredEntries(
+  this: Context,
+  received: MockStorageLike,
+  entries: Record<string, unknown>
+): Result {
+  const mock = mockOf(received);
+  const stored = contents(mock);
+  const pass = this.equals(stored, entries);
+  const lines = pass
+    ? [`Expected the storage not to contain ${this.utils.printExpected(entries)}`]
+    : [this.utils.diff(entries, stored) ?? printContents(this, mock)];
+  return { pass, message: message(this, 'toHaveStoredEntries', 'entries', lines) };
+}
+
+// Successful 'setItem' calls, at least one if `times` is not set. Needs the journal
+export function toHaveBeenWritten(
+  this: Context,
+  received: MockStorageLike,
+  key: string,
+  times?: number
+): Result {
+  const mock = mockOf(received);
+  mock.checkJournal('toHaveBeenWritten');
+  const writes = mock.journal
+    .byMethod('setItem')
+    .filter((e) => e.key === key && e.status === 'ok');
+  const pass = times === undefined ? writes.length > 0 : writes.length === times;
+  const not = pass ? 'not ' : '';
+  const expected = times === undefined ? 'at least once' : `${times} time(s)`;
+  return {
+    pass,
+    message: message(this, 'toHaveBeenWritten', 'key, times', [
+      `Expected ${this.utils.printExpected(key)} ${not}to be written ${expected}`,
+      `Written: ${this.utils.printReceived(writes.length)} time(s)`,
+      ...writes.map((e) => `  ${this.utils.printReceived(e.args[1])}`),
+    ]),
+  };
+}
+
+export function toBeDeletedStorage(this: Context, received: MockStorageLike): Result {
+  const mock = mockOf(received);
+  const pass = mock.state === 'deleted';
+  const not = pass ? 'not ' : '';
+  return {
+    pass,
+    message: message(this, 'toBeDeletedStorage', '', [
+      `Expected the storage ${not}to be deleted`,
+      printContents(this, mock),
+    ]),
+  };
+}
+
+export function toHaveNoPendingOperations(
+  this: Context,
+  received: MockStorageLike
+): Result {
+  const pending = mockOf(received).pendingOperations();
+  const pass = pending.length === 0;
+  const lines = pending.map(({ method, key, startedAt }) => {
+    const args = key === undefined ? '' : this.utils.printReceived(key);
+    return `  ${method}(${args}) started at ${startedAt}`;
+  });
+  return {
+    pass,
+    message: message(this, 'toHaveNoPendingOperations', '', [
+      pass ? 'Expected pending operations' : 'Pending operations:',
+      ...lines,
+    ]),
+  };
+}
+
+// Needs the `audit` option
+export function toHaveNoLossyValues(this: Context, received: MockStorageLike): Result {
+  const { audit } = mockOf(received);
+  if (audit === undefined) {
+    throw Error(`'toHaveNoLossyValues': the storage was created without 'audit'`);
+  }
+  const pass = audit.warnings().length === 0;
+  return {
+    pass,
+    message: message(this, 'toHaveNoLossyValues', '', [
+      pass ? 'Expected lossy values' : 'Lossy values:',
+      audit.report(),
+    ]),
+  };
+}
+
+// The calls made so far produce the same steps as the fixture
+export function toMatchFixture(
+  this: Context,
+  received: MockStorageLike,
+  fixture: SessionFixture,
+  options?: CompareOptions
+): Result {
+  const mismatches = compareFixtures(fixture, mockOf(received).recordFixture(), options);
+  const pass = mismatches.length === 0;
+  return {
+    pass,
+    message: message(this, 'toMatchFixture', 'fixture', [
+      pass ? 'Expected the session not to match the fixture' : 'Mismatches:',
+      formatMismatches(mismatches),
+    ]),
+  };
+}
+
+/**
+ * expect.extend(mockStorageMatchers);
+ *
+ * expect(storage).toHaveStoredValue('value', 42);
+ */
+export const mockStorageMatchers = {
+  toHaveStoredKey,
+  toHaveStoredValue,
+  toHaveStoredEntries,
+  toHaveBeenWritten,
+  toBeDeletedStorage,
+  toHaveNoPendingOperations,
+  toHaveNoLossyValues,
+  toMatchFixture,
+};
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace jest {
+    interface Matchers<R> {
+      toHaveStoredKey: (key: string) => R;
+      toHaveStoredValue: (key: string, value: unknown) => R;
+      toHaveStoredEntries: (entries: Record<string, unknown>) => R;
+      toHaveBeenWritten: (key: string, times?: number) => R;
+      toBeDeletedStorage: () => R;
+      toHaveNoPendingOperations: () => R;
+      toHaveNoLossyValues: () => R;
+      toMatchFixture: (fixture: SessionFixture, options?: CompareOptions) => R;
+    }
+  }
+}
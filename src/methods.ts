@@ -0,0 +1,48 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+export type OperationName =
+  | 'init'
+  | 'getItem'
+  | 'setItem'
+  | 'removeItem'
+  | 'clear'
+  | 'size'
+  | 'key'
+  | 'deleteStorage';
+
+export const operationNames: OperationName[] = [
+  'init',
+  'getItem',
+  'setItem',
+  'removeItem',
+  'clear',
+  'size',
+  'key',
+  'deleteStorage',
+];
+
+export type AsyncMethodName = `${OperationName}Async`;
+
+export type SyncMethodName = `${OperationName}Sync`;
+
+export type MethodName = AsyncMethodName | SyncMethodName;
+
+export const methodNames: MethodName[] = operationNames.flatMap((name): MethodName[] => [
+  `${name}Sync`,
+  `${name}Async`,
+]);
+
+export const isMethodName = (value: unknown): value is MethodName =>
+  methodNames.includes(value as MethodName);
+
+// 'setItemAsync' -> 'setItem'
+export const operationOf = (method: MethodName): OperationName =>
+  method.replace(/(Sync|Async)$/, '') as OperationName;
+
+export const isAsyncMethod = (method: MethodName): method is AsyncMethodName =>
+  method.endsWith('Async');
@@ -0,0 +1,82 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as v8 from 'node:v8';
+import { type PersistenceAdapter, type PersistedEntries } from './persistence';
+import { type SessionFixture } from './fixture';
+
+// 'v8' keeps what structured clone keeps (Map, Date, undefined...),
+// 'json' is readable but loses the same things `JSON.stringify` does
+export type FileFormat = 'v8' | 'json';
+
+export interface FilePersistenceOptions {
+  // Created if it does not exist
+  dir: string;
+  // Default: 'v8'
+  format?: FileFormat;
+}
+
+const encode = (entries: PersistedEntries, format: FileFormat): Buffer | string =>
+  format === 'v8' ? v8.serialize(entries) : JSON.stringify(entries);
+
+const decode = (data: Buffer, format: FileFormat): PersistedEntries =>
+  (format === 'v8'
+    ? v8.deserialize(data)
+    : JSON.parse(data.toString('utf8'))) as PersistedEntries;
+
+/**
+ * One file per storage name, survives process restarts:
+ *
+ * const storage = createStorage({
+ *   use: new MockInterface({ persistence: filePersistence({ dir: '.storage' }) }),
+ * });
+ */
+export const filePersistence = (options: FilePersistenceOptions): PersistenceAdapter => {
+  const format = options.format ?? 'v8';
+  const fileOf = (name: string): string =>
+    path.join(options.dir, `${encodeURIComponent(name)}.${format}`);
+
+  return {
+    load: (name) => {
+      const file = fileOf(name);
+      if (!fs.existsSync(file)) return undefined;
+      try {
+        return decode(fs.readFileSync(file), format);
+      } catch (e) {
+        throw Error(`filePersistence: can't read '${file}': ${String(e)}`);
+      }
+    },
+    // Writes to a temporary file and renames it,
+    // so a crash never leaves a half-written file
+    save: (name, entries) => {
+      const file = fileOf(name);
+      const tmp = `${file}.${process.pid}.tmp`;
+      fs.mkdirSync(options.dir, { recursive: true });
+      fs.writeFileSync(tmp, encode(entries, format));
+      fs.renameSync(tmp, file);
+    },
+    remove: (name) => {
+      fs.rmSync(fileOf(name), { force: true });
+    },
+  };
+};
+
+// Fixtures are plain JSON, see `mock.recordFixture()`
+export const writeFixture = (file: string, fixture: SessionFixture): void => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify(fixture, null, 2)}\n`);
+};
+
+export const readFixture = (file: string): SessionFixture => {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as SessionFixture;
+  } catch (e) {
+    throw Error(`readFixture: can't read '${file}': ${String(e)}`);
+  }
+};
@@ -0,0 +1,63 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { type AsyncMethodName } from './methods';
+import { settlePromises } from './scheduler';
+
+export interface PendingOperation {
+  id: number;
+  method: AsyncMethodName;
+  key?: string;
+  startedAt: number;
+}
+
+// Async operations that have been called but have not settled yet
+export class PendingOperations {
+  private readonly operations = new Map<number, PendingOperation>();
+
+  private lastId = 0;
+
+  private waiting: Array<() => void> = [];
+
+  // Returns a function that removes the operation
+  add(method: AsyncMethodName, key: string | undefined, now: number): () => void {
+    this.lastId += 1;
+    const { lastId: id } = this;
+    this.operations.set(id, { id, method, key, startedAt: now });
+    return () => {
+      if (!this.operations.delete(id) || this.operations.size > 0) return;
+      const { waiting } = this;
+      this.waiting = [];
+      waiting.forEach((resolve) => {
+        resolve();
+      });
+    };
+  }
+
+  // In call order
+  list(): PendingOperation[] {
+    return [...this.operations.values()].map((operation) => ({ ...operation }));
+  }
+
+  size(): number {
+    return this.operations.size;
+  }
+
+  // Operations that promise chains start after others settle
+  // (e.g. 'await init' in storage-facade) are waited for too
+  async whenIdle(): Promise<void> {
+    await settlePromises();
+    while (this.operations.size > 0) {
+      // eslint-disable-next-line no-await-in-loop
+      await new Promise<void>((resolve) => {
+        this.waiting.push(resolve);
+      });
+      // eslint-disable-next-line no-await-in-loop
+      await settlePromises();
+    }
+  }
+}
@@ -0,0 +1,41 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+// In storage order
+export type PersistedEntries = Array<[string, unknown]>;
+
+// Where the data of a storage is kept between runs,
+// see `filePersistence` in 'storage-facade-mockinterface/node'
+export interface PersistenceAdapter {
+  // `undefined` if nothing is saved under this name
+  load: (name: string) => PersistedEntries | undefined;
+  save: (name: string, entries: PersistedEntries) => void;
+  remove: (name: string) => void;
+}
+
+// Keeps saved storages in memory, e.g. to simulate a restart
+// without touching the file system
+export class MemoryPersistence implements PersistenceAdapter {
+  private readonly saved = new Map<string, PersistedEntries>();
+
+  load(name: string): PersistedEntries | undefined {
+    const entries = this.saved.get(name);
+    return entries === undefined ? undefined : structuredClone(entries);
+  }
+
+  save(name: string, entries: PersistedEntries): void {
+    this.saved.set(name, structuredClone(entries));
+  }
+
+  remove(name: string): void {
+    this.saved.delete(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.saved.keys());
+  }
+}
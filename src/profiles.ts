@@ -0,0 +1,88 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { type KeyOrder } from './keyOrder';
+import { DataCloneError } from './errors';
+
+export type ProfileName = 'mock' | 'indexedDB' | 'localStorage' | 'sessionStorage';
+
+export interface BackendProfile {
+  name: ProfileName;
+  // 'json': `Date` becomes a string, `Map` becomes `{}`, `undefined` in arrays becomes `null`...
+  values: 'structuredClone' | 'json';
+  keyOrder: KeyOrder;
+  sync: boolean;
+  async: boolean;
+  defaultAsyncMode: boolean;
+  // sessionStorage belongs to one tab and is never shared
+  shareable: boolean;
+  // A key the real interface keeps its own data in
+  reservedKey?: (storageName: string) => string;
+}
+
+// The Web Storage interfaces keep the list of keys next to the values
+const keysArrayName = (storageName: string): string => `__${storageName}-keys-array`;
+
+export const profiles: Record<ProfileName, BackendProfile> = {
+  mock: {
+    name: 'mock',
+    values: 'structuredClone',
+    keyOrder: 'insertion',
+    sync: true,
+    async: true,
+    defaultAsyncMode: true,
+    shareable: true,
+  },
+  indexedDB: {
+    name: 'indexedDB',
+    values: 'structuredClone',
+    keyOrder: 'lexicographic',
+    sync: false,
+    async: true,
+    defaultAsyncMode: true,
+    shareable: true,
+  },
+  localStorage: {
+    name: 'localStorage',
+    values: 'json',
+    keyOrder: 'insertion',
+    sync: true,
+    async: false,
+    defaultAsyncMode: false,
+    shareable: true,
+    reservedKey: keysArrayName,
+  },
+  sessionStorage: {
+    name: 'sessionStorage',
+    values: 'json',
+    keyOrder: 'insertion',
+    sync: true,
+    async: false,
+    defaultAsyncMode: false,
+    shareable: false,
+    reservedKey: keysArrayName,
+  },
+};
+
+// What `JSON.parse(JSON.stringify(value))` gives, throws like `JSON.stringify` does
+export const jsonRoundTrip = (value: unknown): unknown => {
+  const json = JSON.stringify(value) as string | undefined;
+  if (json === undefined) return undefined;
+  return JSON.parse(json) as unknown;
+};
+
+// Throws like the real interface: `DataCloneError` for structured clone,
+// `TypeError` from `JSON.stringify` for JSON
+export const cloneValue = (profile: BackendProfile, value: unknown): unknown => {
+  if (profile.values === 'json') return jsonRoundTrip(value);
+  try {
+    return structuredClone(value);
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : String(e);
+    throw new DataCloneError(`The value can't be stored in '${profile.name}': ${reason}`);
+  }
+};
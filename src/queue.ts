@@ -0,0 +1,62 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+/**
+ * How in-flight async operations are ordered:
+ *
+ * 'concurrent' - every operation waits for its own delay only
+ * 'fifo' - an operation starts when the previous one has settled
+ * 'per-key' - like 'fifo' for operations on the same key, operations
+ *             without a key ('clear', 'size'...) wait for all the others
+ */
+export type Serialization = 'concurrent' | 'fifo' | 'per-key';
+
+export interface Turn {
+  // Resolves when the operation may start
+  ready: Promise<void>;
+  // Call once the operation has settled
+  leave: () => void;
+}
+
+const after = async (...previous: Array<Promise<void> | undefined>): Promise<void> => {
+  await Promise.all(previous);
+};
+
+export class OperationQueue {
+  // The last operation without a key ('fifo': the last operation)
+  private barrier: Promise<void> = Promise.resolve();
+
+  private readonly tails = new Map<string, Promise<void>>();
+
+  enter(mode: Exclude<Serialization, 'concurrent'>, key?: string): Turn {
+    let leave = (): void => {};
+    const done = new Promise<void>((resolve) => {
+      leave = resolve;
+    });
+
+    if (mode === 'fifo' || key === undefined) {
+      const ready =
+        mode === 'fifo'
+          ? after(this.barrier)
+          : after(this.barrier, ...this.tails.values());
+      if (mode === 'per-key') this.tails.clear();
+      this.barrier = after(ready, done);
+      return { ready, leave };
+    }
+
+    const ready = after(this.barrier, this.tails.get(key));
+    const tail = after(ready, done);
+    this.tails.set(key, tail);
+    // Forget keys nobody waits for anymore
+    const forget = async (): Promise<void> => {
+      await tail;
+      if (this.tails.get(key) === tail) this.tails.delete(key);
+    };
+    void forget();
+    return { ready, leave };
+  }
+}
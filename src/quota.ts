@@ -0,0 +1,51 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { entrySize, estimateSize } from './size';
+import { QuotaExceededError } from './errors';
+
+export interface Quota {
+  // Keys and values of all entries
+  maxTotalBytes?: number;
+  maxValueBytes?: number;
+  maxKeys?: number;
+}
+
+export const quotaExceededError = (problem: string): QuotaExceededError => {
+  return new QuotaExceededError(`The quota has been exceeded: ${problem}`);
+};
+
+// Throws if writing `value` to `key` would exceed the quota
+export const checkQuota = (
+  storage: Map<string, unknown>,
+  key: string,
+  value: unknown,
+  quota: Quota
+): void => {
+  if (quota.maxKeys !== undefined && !storage.has(key) && storage.size >= quota.maxKeys) {
+    throw quotaExceededError(`more than ${quota.maxKeys} keys`);
+  }
+
+  if (quota.maxValueBytes !== undefined) {
+    const size = estimateSize(value);
+    if (size > quota.maxValueBytes) {
+      throw quotaExceededError(
+        `value of '${key}' is ${size} bytes, max: ${quota.maxValueBytes}`
+      );
+    }
+  }
+
+  if (quota.maxTotalBytes !== undefined) {
+    let total = entrySize(key, value);
+    storage.forEach((v, k) => {
+      if (k !== key) total += entrySize(k, v);
+    });
+    if (total > quota.maxTotalBytes) {
+      throw quotaExceededError(`${total} bytes in total, max: ${quota.maxTotalBytes}`);
+    }
+  }
+};
@@ -0,0 +1,139 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+export interface Scheduler {
+  now: () => number;
+  setTimeout: (callback: () => void, ms: number) => void;
+}
+
+export const realScheduler: Scheduler = {
+  now: () => Date.now(),
+  setTimeout: (callback: () => void, ms: number) => {
+    setTimeout(callback, ms);
+  },
+};
+
+interface Timer {
+  at: number;
+  callback: () => void;
+}
+
+// Jest fake timers ('modern' and 'legacy') run only when the test advances them
+const isFake = (timeout: typeof setTimeout): boolean =>
+  'clock' in timeout || '_isMockFunction' in timeout;
+
+// Promise reactions can't be faked, enough turns for storage-facade's chains
+export const microtaskTurns = 100;
+
+// Lets promise chains (e.g. 'await init' in storage-facade)
+// schedule their next operation before the clock moves on
+export const settlePromises = async (): Promise<void> => {
+  const { setTimeout: timeout } = globalThis;
+  if (!isFake(timeout)) {
+    await new Promise((resolve) => {
+      timeout(resolve, 0);
+    });
+    return;
+  }
+  for (let turn = 0; turn < microtaskTurns; turn += 1) {
+    // eslint-disable-next-line no-await-in-loop
+    await Promise.resolve();
+  }
+};
+
+export const maxTimers = 100_000;
+
+/**
+ * Time moves only when the test asks for it:
+ *
+ * const clock = new VirtualClock();
+ * const storage = createStorage({ use: new MockInterface({ scheduler: clock }) });
+ *
+ * storage.value = 42;
+ * await clock.runAll();
+ * await storage.value; // Ok
+ */
+export class VirtualClock implements Scheduler {
+  private time: number;
+
+  // Sorted by time, timers with the same time in the order they were set
+  private readonly timers: Timer[] = [];
+
+  constructor(start = 0) {
+    this.time = start;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): void {
+    const at = this.time + Math.max(0, ms);
+    // After the timers with the same time
+    let low = 0;
+    let high = this.timers.length;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if (this.timers[middle].at <= at) low = middle + 1;
+      else high = middle;
+    }
+    this.timers.splice(low, 0, { at, callback });
+  }
+
+  pendingTimers(): number {
+    return this.timers.length;
+  }
+
+  private takeNext(until = Infinity): Timer | undefined {
+    const [next] = this.timers;
+    if (next === undefined || next.at > until) return undefined;
+    this.timers.shift();
+    return next;
+  }
+
+  private fire(timer: Timer): void {
+    this.time = Math.max(this.time, timer.at);
+    timer.callback();
+  }
+
+  // Runs the next timer, returns `false` if there was none
+  async runNext(): Promise<boolean> {
+    await settlePromises();
+    const timer = this.takeNext();
+    if (timer === undefined) return false;
+    this.fire(timer);
+    await settlePromises();
+    return true;
+  }
+
+  // Runs timers that are due within `ms`, including ones they set
+  async advanceBy(ms: number): Promise<void> {
+    if (ms < 0) throw Error(`VirtualClock: can't go back in time, got ${ms} ms!`);
+    const until = this.time + ms;
+    await settlePromises();
+    for (let count = 0; ; count += 1) {
+      if (count >= maxTimers) throw Error(`VirtualClock: more than ${maxTimers} timers!`);
+      const timer = this.takeNext(until);
+      if (timer === undefined) break;
+      this.fire(timer);
+      // eslint-disable-next-line no-await-in-loop
+      await settlePromises();
+    }
+    this.time = until;
+  }
+
+  // Runs timers until there are none left, returns the number of timers run
+  async runAll(): Promise<number> {
+    let count = 0;
+    // eslint-disable-next-line no-await-in-loop
+    while (await this.runNext()) {
+      count += 1;
+      if (count >= maxTimers) throw Error(`VirtualClock: more than ${maxTimers} timers!`);
+    }
+    return count;
+  }
+}
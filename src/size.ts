@@ -0,0 +1,67 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+/* eslint-disable @typescript-eslint/no-use-before-define */
+
+// Strings are counted in UTF-16 code units, like browsers do for localStorage
+export const stringSize = (value: string): number => value.length * 2;
+
+const objectSize = (value: object, seen: Set<object>): number => {
+  if (seen.has(value)) return 0;
+  seen.add(value);
+
+  if (value instanceof Date) return 8;
+  if (value instanceof RegExp) return stringSize(value.source) + stringSize(value.flags);
+  if (value instanceof ArrayBuffer) return value.byteLength;
+  if (ArrayBuffer.isView(value)) return value.byteLength;
+  if (typeof Blob !== 'undefined' && value instanceof Blob) return value.size;
+  if (value instanceof Map) {
+    let size = 0;
+    value.forEach((v: unknown, k: unknown) => {
+      size += valueSize(k, seen) + valueSize(v, seen);
+    });
+    return size;
+  }
+  if (value instanceof Set) {
+    let size = 0;
+    value.forEach((v: unknown) => {
+      size += valueSize(v, seen);
+    });
+    return size;
+  }
+  if (Array.isArray(value)) {
+    return value.reduce((size: number, v: unknown) => size + valueSize(v, seen), 0);
+  }
+  return Object.entries(value).reduce(
+    (size: number, [k, v]: [string, unknown]) =>
+      size + stringSize(k) + valueSize(v, seen),
+    0
+  );
+};
+
+const valueSize = (value: unknown, seen: Set<object>): number => {
+  switch (typeof value) {
+    case 'string':
+      return stringSize(value);
+    case 'number':
+      return 8;
+    case 'boolean':
+      return 4;
+    case 'bigint':
+      return Math.ceil(value.toString(16).length / 2);
+    case 'object':
+      return value === null ? 0 : objectSize(value, seen);
+    default:
+      return 0;
+  }
+};
+
+// An estimate in bytes, not what a real backend would report
+export const estimateSize = (value: unknown): number => valueSize(value, new Set());
+
+export const entrySize = (key: string, value: unknown): number =>
+  stringSize(key) + estimateSize(value);
@@ -0,0 +1,39 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { type Backend } from './backends';
+
+// Plain data: can be structured-cloned and compared with `toEqual`.
+// Values are kept as is (`Map`, `Date`, `undefined`...), `JSON.stringify`
+// loses them: encode the entries with `encodeValue` to keep them in a file
+export interface MockSnapshot {
+  name: string;
+  deleted: boolean;
+  // In storage order
+  entries: Array<[string, unknown]>;
+}
+
+export const snapshotBackend = (backend: Backend, name: string): MockSnapshot => {
+  return {
+    name,
+    deleted: backend.deleted,
+    entries: structuredClone(Array.from(backend.storage)),
+  };
+};
+
+// Changes the Map in place, so references to it stay valid
+export const restoreBackend = (backend: Backend, snapshot: MockSnapshot): void => {
+  const state = backend;
+  state.storage.clear();
+  structuredClone(snapshot.entries).forEach(([key, value]) => {
+    state.storage.set(key, value);
+  });
+  state.syncReplicas();
+  state.deleted = snapshot.deleted;
+  if (snapshot.deleted) state.persistence?.remove(state.name);
+  else state.persist();
+};
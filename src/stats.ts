@@ -0,0 +1,142 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { entrySize } from './size';
+
+// Sizes are estimates in bytes, see `estimateSize`
+export interface KeyStats {
+  key: string;
+  // The key and the value
+  size: number;
+  reads: number;
+  writes: number;
+}
+
+export interface HighWaterMarks {
+  keys: number;
+  totalSize: number;
+  // The largest entry
+  keySize: number;
+}
+
+export interface StorageStats {
+  keys: number;
+  totalSize: number;
+  // Stored keys, in key order
+  perKey: KeyStats[];
+  // Stored keys by size, the largest first
+  largest: KeyStats[];
+  highWater: HighWaterMarks;
+  // All keys, removed ones too
+  reads: number;
+  writes: number;
+  // Scheduler time of the last reset
+  since: number;
+}
+
+export interface StatsOptions {
+  // The length of `largest`, default: 5
+  largest?: number;
+}
+
+// Counts reads and writes of one instance and keeps the size of every
+// stored key, updated per change, for the high-water marks
+export class UsageTracker {
+  private reads = new Map<string, number>();
+
+  private writes = new Map<string, number>();
+
+  private sizes = new Map<string, number>();
+
+  private totalSize = 0;
+
+  private highWater: HighWaterMarks = { keys: 0, totalSize: 0, keySize: 0 };
+
+  private since = 0;
+
+  read(key: string): void {
+    this.reads.set(key, (this.reads.get(key) ?? 0) + 1);
+  }
+
+  write(key: string): void {
+    this.writes.set(key, (this.writes.get(key) ?? 0) + 1);
+  }
+
+  // After a change of `key`, `null` if the whole storage changed
+  // ('clear', 'deleteStorage', another backend)
+  changed(storage: Map<string, unknown>, key: string | null): void {
+    if (key === null) {
+      this.measure(storage);
+      return;
+    }
+    this.totalSize -= this.sizes.get(key) ?? 0;
+    if (storage.has(key)) {
+      const size = entrySize(key, storage.get(key));
+      this.sizes.set(key, size);
+      this.totalSize += size;
+      this.highWater.keySize = Math.max(this.highWater.keySize, size);
+    } else {
+      this.sizes.delete(key);
+    }
+    this.updateHighWater();
+  }
+
+  private measure(storage: Map<string, unknown>): void {
+    this.sizes = new Map();
+    this.totalSize = 0;
+    storage.forEach((value, key) => {
+      const size = entrySize(key, value);
+      this.sizes.set(key, size);
+      this.totalSize += size;
+      this.highWater.keySize = Math.max(this.highWater.keySize, size);
+    });
+    this.updateHighWater();
+  }
+
+  private updateHighWater(): void {
+    this.highWater.keys = Math.max(this.highWater.keys, this.sizes.size);
+    this.highWater.totalSize = Math.max(this.highWater.totalSize, this.totalSize);
+  }
+
+  // `keys` in the order the storage returns them
+  stats(
+    storage: Map<string, unknown>,
+    keys: string[],
+    options: StatsOptions = {}
+  ): StorageStats {
+    // Measured again: restoring a snapshot or loading saved data
+    // changes the storage without a change per key
+    this.measure(storage);
+    const perKey = keys.map((key) => ({
+      key,
+      size: this.sizes.get(key) ?? 0,
+      reads: this.reads.get(key) ?? 0,
+      writes: this.writes.get(key) ?? 0,
+    }));
+    const sum = (counts: Map<string, number>): number =>
+      [...counts.values()].reduce((total, count) => total + count, 0);
+    return {
+      keys: storage.size,
+      totalSize: this.totalSize,
+      perKey,
+      largest: [...perKey].sort((a, b) => b.size - a.size).slice(0, options.largest ?? 5),
+      highWater: { ...this.highWater },
+      reads: sum(this.reads),
+      writes: sum(this.writes),
+      since: this.since,
+    };
+  }
+
+  // Counts start from zero, high-water marks from the current usage
+  reset(storage: Map<string, unknown>, now: number): void {
+    this.reads = new Map();
+    this.writes = new Map();
+    this.highWater = { keys: 0, totalSize: 0, keySize: 0 };
+    this.since = now;
+    this.measure(storage);
+  }
+}
@@ -0,0 +1,157 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+/* eslint-disable max-classes-per-file */
+
+import { type StorageFacade, createStorage, defaultStorageName } from 'storage-facade';
+import {
+  type MockOptions,
+  type Delay,
+  type DelayProfile,
+  type ChangeListener,
+  MockInterface,
+  BackendRegistry,
+} from './index';
+
+export interface TabOptions extends Omit<MockOptions, 'shared'> {
+  // Latency of this tab
+  delay?: Delay | DelayProfile;
+  asyncMode?: boolean;
+}
+
+export interface TabsSetup extends TabOptions {
+  // The number of tabs or options for each of them,
+  // each tab's options are added to the common ones
+  tabs: number | TabOptions[];
+  // Storage name, default: storage-facade's default
+  name?: string;
+  // Default: a new registry, so harnesses don't see each other
+  registry?: BackendRegistry;
+}
+
+// One `createStorage` facade over its own `MockInterface`
+export class Tab {
+  readonly id: number;
+
+  mock: MockInterface;
+
+  storage: StorageFacade;
+
+  private readonly listeners = new Set<ChangeListener>();
+
+  private readonly options: TabOptions;
+
+  private readonly name: string;
+
+  private readonly registry: BackendRegistry;
+
+  constructor(id: number, options: TabOptions, name: string, registry: BackendRegistry) {
+    this.id = id;
+    this.options = options;
+    this.name = name;
+    this.registry = registry;
+    [this.mock, this.storage] = this.open();
+  }
+
+  private open(): [MockInterface, StorageFacade] {
+    const { delay, asyncMode, ...options } = this.options;
+    const mock = new MockInterface({ ...options, shared: this.registry });
+    mock.onChange((change) => {
+      this.listeners.forEach((listener) => {
+        listener(change);
+      });
+    });
+    const storage = createStorage({ use: mock, name: this.name, delay, asyncMode });
+    return [mock, storage];
+  }
+
+  get closed(): boolean {
+    return this.mock.closed;
+  }
+
+  close(): void {
+    this.mock.close();
+  }
+
+  // Like reloading the tab: a new instance and facade over the same data
+  reopen(): void {
+    this.close();
+    [this.mock, this.storage] = this.open();
+  }
+
+  // Changes made by other tabs, the listener survives `reopen`
+  onChange(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export class Tabs {
+  readonly name: string;
+
+  readonly registry: BackendRegistry;
+
+  readonly tabs: Tab[] = [];
+
+  private readonly defaults: TabOptions;
+
+  constructor(setup: TabsSetup) {
+    const { tabs, name, registry, ...defaults } = setup;
+    this.name = name ?? defaultStorageName;
+    this.registry = registry ?? new BackendRegistry();
+    this.defaults = defaults;
+    const list = typeof tabs === 'number' ? Array<TabOptions>(tabs).fill({}) : tabs;
+    list.forEach((options) => this.open(options));
+  }
+
+  // Tabs with the same seed would have the same delays,
+  // so each tab gets its own seed derived from the common one
+  open(options: TabOptions = {}): Tab {
+    const id = this.tabs.length;
+    const { seed } = this.defaults;
+    const tab = new Tab(
+      id,
+      { ...this.defaults, seed: seed === undefined ? undefined : seed + id, ...options },
+      this.name,
+      this.registry
+    );
+    this.tabs.push(tab);
+    return tab;
+  }
+
+  get(id: number): Tab {
+    const tab = this.tabs[id];
+    if (tab === undefined) throw Error(`Tabs: there is no tab ${id}!`);
+    return tab;
+  }
+
+  // Tabs that are not closed
+  active(): Tab[] {
+    return this.tabs.filter((tab) => !tab.closed);
+  }
+
+  async whenIdle(): Promise<void> {
+    await Promise.all(this.tabs.map(async (tab) => tab.mock.whenIdle()));
+  }
+
+  closeAll(): void {
+    this.tabs.forEach((tab) => {
+      tab.close();
+    });
+  }
+}
+
+/**
+ * Several "tabs" that share one storage and see each other's changes:
+ *
+ * const { tabs: [leader, follower] } = createTabs({ tabs: 2, name: 'app' });
+ * follower.onChange((change) => { ... });
+ * leader.storage.value = 1;
+ */
+export const createTabs = (setup: TabsSetup): Tabs => new Tabs(setup);
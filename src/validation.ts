@@ -0,0 +1,213 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { type BackendProfile } from './profiles';
+
+export type ValueTarget = BackendProfile['values'];
+
+// A part of the value that is refused or changed by the target, e.g.
+// `{ path: 'user.tags[2]', problem: 'undefined becomes null' }`
+export interface ValueIssue {
+  path: string;
+  problem: string;
+}
+
+// Kept as is by structured clone, JSON turns them into `{}`
+const cloneableTags = new Set([
+  'Boolean',
+  'Number',
+  'String',
+  'RegExp',
+  'Error',
+  'ArrayBuffer',
+  'DataView',
+  'Blob',
+  'File',
+  'FileList',
+  'ImageData',
+]);
+
+const notCloneableTags = new Set(['WeakMap', 'WeakSet', 'WeakRef', 'Promise']);
+
+// Works across realms, unlike `instanceof`
+export const tagOf = (value: object): string =>
+  Object.prototype.toString.call(value).slice(8, -1);
+
+const isPlainObject = (value: object): boolean => {
+  const proto = Object.getPrototypeOf(value) as object | null;
+  return proto === null || Object.getPrototypeOf(proto) === null;
+};
+
+const className = (value: object): string => {
+  const proto = Object.getPrototypeOf(value) as { constructor?: { name?: string } };
+  return proto.constructor?.name ?? 'an anonymous class';
+};
+
+const isNode = (value: object): boolean =>
+  typeof Node !== 'undefined' && value instanceof Node;
+
+const propertyPath = (path: string, key: string): string =>
+  /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+
+const printKey = (key: unknown): string => {
+  if (typeof key === 'string') return JSON.stringify(key);
+  if (typeof key === 'object' && key !== null) return `<${tagOf(key)}>`;
+  return String(key);
+};
+
+// Where a value sits: JSON drops what it can't store from
+// objects, but keeps the position in arrays with `null`
+type Slot = 'root' | 'property' | 'element';
+
+const dropped = (slot: Slot): string => {
+  if (slot === 'element') return 'becomes null';
+  if (slot === 'property') return 'is dropped';
+  return 'becomes undefined';
+};
+
+class Walker {
+  readonly issues: ValueIssue[] = [];
+
+  // Only the current branch: a repeated, but not circular,
+  // reference is walked again
+  private readonly ancestors = new Set<object>();
+
+  constructor(private readonly target: ValueTarget) {}
+
+  private report(path: string, problem: string): void {
+    this.issues.push({ path, problem });
+  }
+
+  walk(value: unknown, path: string, slot: Slot): void {
+    const json = this.target === 'json';
+    switch (typeof value) {
+      case 'function':
+        this.report(
+          path,
+          json ? `a function ${dropped(slot)}` : "functions can't be cloned"
+        );
+        break;
+      case 'symbol':
+        this.report(path, json ? `a symbol ${dropped(slot)}` : "symbols can't be cloned");
+        break;
+      case 'undefined':
+        if (json && slot !== 'property') this.report(path, `undefined ${dropped(slot)}`);
+        break;
+      case 'bigint':
+        if (json) this.report(path, "BigInt can't be serialized to JSON");
+        break;
+      case 'number':
+        if (json && !Number.isFinite(value)) this.report(path, `${value} becomes null`);
+        if (json && Object.is(value, -0)) this.report(path, '-0 becomes 0');
+        break;
+      case 'object':
+        if (value !== null) this.walkObject(value, path);
+        break;
+      default:
+    }
+  }
+
+  private walkObject(value: object, path: string): void {
+    if (this.ancestors.has(value)) {
+      // Structured clone keeps cycles
+      if (this.target === 'json') this.report(path, 'a circular reference');
+      return;
+    }
+    this.ancestors.add(value);
+    if (this.target === 'json') this.walkJson(value, path);
+    else this.walkClone(value, path);
+    this.ancestors.delete(value);
+  }
+
+  private walkClone(value: object, path: string): void {
+    const tag = tagOf(value);
+    if (isNode(value)) {
+      this.report(path, "DOM nodes can't be cloned");
+    } else if (notCloneableTags.has(tag)) {
+      this.report(path, `${tag} can't be cloned`);
+    } else if (Array.isArray(value)) {
+      value.forEach((item, i) => {
+        this.walk(item, `${path}[${i}]`, 'element');
+      });
+    } else if (tag === 'Map') {
+      [...(value as Map<unknown, unknown>)].forEach(([key, item], i) => {
+        this.walk(key, `${path}.keys()[${i}]`, 'element');
+        this.walk(item, `${path}.get(${printKey(key)})`, 'element');
+      });
+    } else if (tag === 'Set') {
+      [...(value as Set<unknown>)].forEach((item, i) => {
+        this.walk(item, `${path}.values()[${i}]`, 'element');
+      });
+    } else if (tag === 'Date' || cloneableTags.has(tag) || ArrayBuffer.isView(value)) {
+      // Nothing to walk
+    } else {
+      if (!isPlainObject(value)) {
+        this.report(path, `an instance of ${className(value)} loses its prototype`);
+      }
+      this.walkProperties(value, path);
+    }
+  }
+
+  private walkJson(value: object, path: string): void {
+    const tag = tagOf(value);
+    const { toJSON } = value as { toJSON?: unknown };
+    if (Array.isArray(value)) {
+      value.forEach((item, i) => {
+        this.walk(item, `${path}[${i}]`, 'element');
+      });
+    } else if (tag === 'Date') {
+      this.report(path, 'a Date becomes a string');
+    } else if (typeof toJSON === 'function') {
+      this.report(path, 'the value becomes the result of toJSON()');
+    } else if (tag === 'Boolean' || tag === 'Number' || tag === 'String') {
+      this.report(path, `a ${tag} object becomes a primitive`);
+    } else if (ArrayBuffer.isView(value) && tag !== 'DataView') {
+      this.report(path, `${tag} becomes an object with index keys`);
+    } else if (!isPlainObject(value) || tag !== 'Object') {
+      const name = tag === 'Object' ? `an instance of ${className(value)}` : `a ${tag}`;
+      const props = Object.keys(value).length > 0;
+      this.report(path, `${name} becomes ${props ? 'a plain object' : '{}'}`);
+      this.walkProperties(value, path);
+    } else {
+      this.walkProperties(value, path);
+    }
+  }
+
+  private walkProperties(value: object, path: string): void {
+    Object.keys(value).forEach((key) => {
+      this.walk(
+        (value as Record<string, unknown>)[key],
+        propertyPath(path, key),
+        'property'
+      );
+    });
+  }
+}
+
+/**
+ * Everything in the value that the target refuses or doesn't keep,
+ * the paths start with `root`, usually the key.
+ *
+ * findValueIssues({ at: new Date(), list: [undefined] }, 'json', 'value');
+ * // [
+ * //   { path: 'value.at', problem: 'a Date becomes a string' },
+ * //   { path: 'value.list[0]', problem: 'undefined becomes null' },
+ * // ]
+ */
+export const findValueIssues = (
+  value: unknown,
+  target: ValueTarget,
+  root = 'value'
+): ValueIssue[] => {
+  const walker = new Walker(target);
+  walker.walk(value, root, 'root');
+  return walker.issues;
+};
+
+// One issue per line
+export const formatIssues = (issues: ValueIssue[]): string =>
+  issues.map(({ path, problem }) => `  ${path}: ${problem}`).join('\n');
@@ -0,0 +1,56 @@
+// Copyright (c) 2023-present Vadim Glinka
+//
+// Licensed under the Apache License, Version 2.0 <LICENSE-APACHE or
+// http://www.apache.org/licenses/LICENSE-2.0> or the MIT license
+// <LICENSE-MIT or http://opensource.org/licenses/MIT>, at your
+// option.
+
+import { safeClone } from './journal';
+import { type LifecycleState } from './lifecycle';
+
+// The parts of `MockInterface` a view reads
+export interface ViewSource {
+  readonly storageName: string;
+  readonly state: LifecycleState;
+  readonly storage: Map<string, unknown>;
+  keys: () => string[];
+}
+
+// What an instance sees, without access to the internal Map.
+// Live: reflects later changes, values are copies
+export class MockStorageView {
+  private readonly source: ViewSource;
+
+  constructor(source: ViewSource) {
+    this.source = source;
+  }
+
+  get name(): string {
+    return this.source.storageName;
+  }
+
+  get state(): LifecycleState {
+    return this.source.state;
+  }
+
+  get size(): number {
+    return this.source.storage.size;
+  }
+
+  // In key order
+  keys(): string[] {
+    return this.source.keys();
+  }
+
+  has(key: string): boolean {
+    return this.source.storage.has(key);
+  }
+
+  get(key: string): unknown {
+    return safeClone(this.source.storage.get(key));
+  }
+
+  entries(): Array<[string, unknown]> {
+    return this.keys().map((key) => [key, this.get(key)]);
+  }
+}